@@ -0,0 +1,335 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheManager } from './CacheManager';
+import { FileStorageAdapter } from '../storage/FileStorageAdapter';
+import { sizeOf } from '../utils/size';
+import { CacheEntry, Priority, StorageAdapter, StorageOperation } from '../types';
+
+/**
+ * Storage adapter keeping the applied batches in memory
+ */
+class MemoryStorage implements StorageAdapter {
+  batches: StorageOperation[][] = [];
+  entries: CacheEntry[];
+
+  constructor(entries: CacheEntry[] = []) {
+    this.entries = entries;
+  }
+
+  async load(): Promise<CacheEntry[]> {
+    return this.entries;
+  }
+
+  async apply(operations: StorageOperation[]): Promise<void> {
+    this.batches.push(operations);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+describe('CacheManager', () => {
+  describe('eviction', () => {
+    it('keeps critical entries through a burst of low priority ones', async () => {
+      const cache = new CacheManager(10, 60000);
+      await cache.set('plan', 'keep', 60000, Priority.CRITICAL);
+
+      for (let i = 0; i < 50; i++) {
+        await cache.set(`msg_${i}`, i, 60000, Priority.LOW);
+      }
+
+      expect(await cache.get('plan')).toBe('keep');
+      expect(cache.getKeysByPriority(Priority.LOW)).toHaveLength(9);
+    });
+
+    it('does not cache or persist a value larger than maxBytes', async () => {
+      const storage = new MemoryStorage();
+      const cache = new CacheManager(100, 60000, { storage, maxBytes: 16 });
+
+      await cache.set('big', 'x'.repeat(100));
+
+      expect(await cache.has('big')).toBe(false);
+      expect(storage.batches).toEqual([[{ type: 'delete', key: 'big' }]]);
+    });
+
+    it('does not keep or persist an entry evicted as soon as it is set', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+      const file = path.join(directory, 'cache.log');
+
+      try {
+        const before = new CacheManager(2, 60000, { storage: new FileStorageAdapter(file) });
+        const events: string[] = [];
+        before.on('set', ({ key }) => events.push(`set ${key}`));
+        before.on('evict', ({ key, reason }) => events.push(`evict ${key} ${reason}`));
+
+        await before.set('a', 1, 60000, Priority.HIGH);
+        await before.set('b', 2, 60000, Priority.HIGH);
+        await before.set('low', 3, 60000, Priority.LOW);
+
+        expect(await before.has('low')).toBe(false);
+        expect(events).toEqual(['set a', 'set b', 'evict low capacity']);
+        expect(before.getStats()).toMatchObject({ sets: 3, evictions: 1 });
+        await before.close();
+
+        const after = new CacheManager(2, 60000, { storage: new FileStorageAdapter(file) });
+        await after.ready;
+        expect(after.getKeysByPriority(Priority.HIGH)).toEqual(['a', 'b']);
+        expect(await after.has('low')).toBe(false);
+        await after.close();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('byte accounting', () => {
+    it('sizes Buffers, strings and objects by their payload', async () => {
+      const cache = new CacheManager(100, 60000);
+      await cache.set('buffer', Buffer.alloc(1000), 60000, Priority.HIGH);
+      await cache.set('text', 'héllo', 60000, Priority.LOW);
+      await cache.set('message', { id: 'm1', content: Buffer.alloc(100), priority: 2 }, 60000, Priority.LOW);
+
+      expect(cache.getStats()).toMatchObject({
+        bytes: 1000 + 6 + (2 + 2) + (7 + 100) + (8 + 8),
+        bytesByPriority: { HIGH: 1000, LOW: 6 + 4 + 107 + 16 }
+      });
+
+      await cache.delete('buffer');
+      expect(cache.getStats().bytesByPriority.HIGH).toBe(0);
+    });
+
+    it('counts a shared or circular object once', () => {
+      const shared = { data: 'x'.repeat(50) };
+      const circular: any = { shared, copies: [shared, shared] };
+      circular.self = circular;
+
+      expect(sizeOf(circular)).toBe(6 + 4 + 50 + 6 + 4);
+    });
+
+    it('emits pressure near the byte limit and relief once freed', async () => {
+      const cache = new CacheManager(100, 60000, { maxBytes: 1000, pressureThreshold: 0.8 });
+      const events: Array<[string, number]> = [];
+      cache.on('pressure', pressure => events.push(['pressure', pressure.bytes]));
+      cache.on('pressureRelieved', pressure => events.push(['pressureRelieved', pressure.bytes]));
+
+      await cache.set('a', Buffer.alloc(500));
+      await cache.set('b', Buffer.alloc(400));
+      await cache.set('c', Buffer.alloc(50));
+      expect(cache.isUnderPressure()).toBe(true);
+
+      await cache.delete('b');
+      expect(events).toEqual([['pressure', 900], ['pressureRelieved', 550]]);
+      expect(cache.getPressure()).toMatchObject({ bytes: 550, maxBytes: 1000, entries: 2, usage: 0.55 });
+    });
+  });
+
+  describe('events and statistics', () => {
+    it('reports each operation once with its eviction reason', async () => {
+      const cache = new CacheManager(2, 60000);
+      const events: string[] = [];
+      cache.on('set', ({ key }) => events.push(`set ${key}`));
+      cache.on('hit', ({ key }) => events.push(`hit ${key}`));
+      cache.on('miss', ({ key }) => events.push(`miss ${key}`));
+      cache.on('evict', ({ key, reason }) => events.push(`evict ${key} ${reason}`));
+
+      await cache.set('a', 1);
+      await cache.set('a', 2);
+      await cache.get('a');
+      await cache.get('nope');
+      await cache.set('b', 1);
+      await cache.set('c', 1);
+      await cache.delete('b');
+      await cache.set('stale', 1, -1);
+      await cache.get('stale');
+      await cache.clear();
+
+      expect(events).toEqual([
+        'set a', 'set a', 'hit a', 'miss nope', 'set b', 'evict a capacity', 'set c',
+        'evict b manual', 'set stale', 'evict stale ttl', 'miss stale', 'evict c manual'
+      ]);
+      expect(cache.getStats()).toMatchObject({
+        hits: 1,
+        misses: 2,
+        sets: 5,
+        evictions: 2,
+        deletes: 2,
+        evictionsByReason: { ttl: 1, capacity: 1, manual: 2, optimize: 0 }
+      });
+    });
+
+    it('counts optimize() removals once', async () => {
+      const cache = new CacheManager(100, 60000);
+      const reasons: string[] = [];
+      cache.on('evict', ({ reason }) => reasons.push(reason));
+
+      await cache.set('old', 1, 60000, Priority.LOW);
+      await cache.set('kept', 1, 60000, Priority.NORMAL);
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 40000);
+      try {
+        cache.optimize();
+      } finally {
+        clock.mockRestore();
+      }
+
+      expect(reasons).toEqual(['optimize']);
+      expect(cache.getStats()).toMatchObject({ evictions: 1, evictionsByReason: { optimize: 1 } });
+    });
+
+    it('keeps counters per key prefix', async () => {
+      const cache = new CacheManager(100, 60000, { keyPrefixes: ['msg_', 'msg_ack_'] });
+
+      await cache.set('msg_1', 1);
+      await cache.set('msg_ack_1', 1);
+      await cache.get('msg_1');
+      await cache.get('msg_2');
+      await cache.get('plan');
+
+      const { byPrefix } = cache.getStats();
+      expect(byPrefix.msg_).toMatchObject({ sets: 1, hits: 1, misses: 1, hitRate: 0.5 });
+      expect(byPrefix.msg_ack_).toMatchObject({ sets: 1, hits: 0 });
+      expect(byPrefix['*']).toMatchObject({ misses: 1, hitRate: 0 });
+    });
+  });
+
+  describe('persistent storage', () => {
+    it('survives a restart', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+      const file = path.join(directory, 'cache.log');
+
+      try {
+        const before = new CacheManager(100, 60000, { storage: new FileStorageAdapter(file) });
+        await before.set('msg_1', { c: Buffer.from('payload') }, 60000, Priority.CRITICAL);
+        await before.set('temp', 'value');
+        await before.delete('temp');
+        await before.close();
+
+        const after = new CacheManager(100, 60000, { storage: new FileStorageAdapter(file) });
+        await after.ready;
+
+        expect(await after.get('msg_1')).toEqual({ c: Buffer.from('payload') });
+        expect(await after.has('temp')).toBe(false);
+        expect(after.backupCritical()).toEqual(new Map([['msg_1', { c: Buffer.from('payload') }]]));
+        await after.close();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('warms up from the records before a damaged one', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+      const file = path.join(directory, 'cache.log');
+
+      try {
+        const before = new CacheManager(100, 60000, { storage: new FileStorageAdapter(file) });
+        await before.set('kept', 1);
+        const good = fs.statSync(file).size;
+        await before.set('lost', 2);
+        await before.close();
+
+        const log = fs.readFileSync(file);
+        log[good + 12] ^= 0xFF;
+        fs.writeFileSync(file, log);
+
+        const after = new CacheManager(100, 60000, { storage: new FileStorageAdapter(file) });
+        await after.ready;
+        expect(await after.get('kept')).toBe(1);
+        expect(await after.has('lost')).toBe(false);
+
+        await after.set('next', 3);
+        await after.close();
+        const reopened = new CacheManager(100, 60000, { storage: new FileStorageAdapter(file) });
+        expect(await reopened.get('next')).toBe(3);
+        await reopened.close();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('skips and deletes entries that expired while stopped', async () => {
+      const now = Date.now();
+      const storage = new MemoryStorage([
+        { key: 'fresh', value: 1, timestamp: now, ttl: 60000, accessCount: 0, priority: Priority.NORMAL },
+        { key: 'stale', value: 2, timestamp: now - 120000, ttl: 60000, accessCount: 0, priority: Priority.NORMAL }
+      ]);
+      const cache = new CacheManager(100, 60000, { storage });
+
+      expect(await cache.get('fresh')).toBe(1);
+      expect(await cache.get('stale')).toBeNull();
+      expect(storage.batches).toEqual([[{ type: 'delete', key: 'stale' }]]);
+    });
+
+    it('writes each change before returning in write-through mode', async () => {
+      const storage = new MemoryStorage();
+      const cache = new CacheManager(100, 60000, { storage });
+
+      await cache.set('a', 1);
+      expect(storage.batches).toHaveLength(1);
+      expect(storage.batches[0][0]).toMatchObject({ type: 'set', entry: { key: 'a', value: 1 } });
+
+      await cache.clear();
+      expect(storage.batches[1]).toEqual([{ type: 'clear' }]);
+    });
+
+    it('batches changes in write-behind mode', async () => {
+      const storage = new MemoryStorage();
+      const cache = new CacheManager(100, 60000, { storage, writeMode: 'write-behind', flushInterval: 60000 });
+
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      await cache.set('a', 3);
+      await cache.delete('b');
+      expect(storage.batches).toEqual([]);
+
+      await cache.flush();
+      expect(storage.batches).toHaveLength(1);
+      expect(storage.batches[0].map(operation => operation.type === 'set' ? [operation.entry.key, operation.entry.value] : operation))
+        .toEqual([['a', 3], { type: 'delete', key: 'b' }]);
+    });
+
+    it('removes entries evicted for capacity from storage', async () => {
+      const storage = new MemoryStorage();
+      const cache = new CacheManager(1, 60000, { storage });
+
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      await cache.close();
+
+      expect(storage.batches.flat()).toContainEqual({ type: 'delete', key: 'a' });
+    });
+
+    it('keeps working in memory when the storage cannot be read', async () => {
+      const storage = new MemoryStorage();
+      storage.load = async () => {
+        throw new Error('disk unavailable');
+      };
+      const cache = new CacheManager(100, 60000, { storage });
+
+      await expect(cache.ready).rejects.toThrow('disk unavailable');
+      await cache.set('a', 1);
+      expect(await cache.get('a')).toBe(1);
+    });
+
+    it('reports storage failures instead of logging them', async () => {
+      const storage = new MemoryStorage();
+      storage.apply = async () => {
+        throw new Error('disk full');
+      };
+      const cache = new CacheManager(1, 60000, { storage, writeMode: 'write-behind', flushInterval: 1 });
+      const errors: string[] = [];
+      cache.on('storageError', error => errors.push(error.message));
+      const log = jest.spyOn(console, 'error');
+
+      await cache.set('a', 1);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(errors).toEqual(['disk full']);
+      expect(cache.getStats().storageErrors).toBe(1);
+      expect(log).not.toHaveBeenCalled();
+      log.mockRestore();
+    });
+  });
+});
@@ -1,35 +1,248 @@
-import { LRUCache } from 'lru-cache';
-import { CacheEntry, Priority } from '../types';
+import { EventEmitter } from 'events';
+import { CacheEntry, CacheEvictionReason, CacheManagerOptions, CachePressure, Priority, StorageAdapter, StorageOperation } from '../types';
+import { PriorityCache } from './PriorityCache';
 
 /**
- * Advanced cache manager with priority-based eviction and memory management
+ * Operation counts of the cache or of a key prefix. Evictions are the removals
+ * the cache made itself; deletes are explicit delete() and clear() calls.
  */
-export class CacheManager {
-  private cache: LRUCache<string, CacheEntry>;
-  private stats = {
-    hits: 0,
-    misses: 0,
-    sets: 0,
-    evictions: 0
-  };
-
-  constructor(maxSize: number = 1000, maxAge: number = 300000) { // 5 minutes default
-    this.cache = new LRUCache<string, CacheEntry>({
-      max: maxSize,
-      ttl: maxAge,
-      updateAgeOnGet: true,
-      allowStale: false,
-      dispose: (value, key) => {
-        this.stats.evictions++;
-        console.log(`Cache entry evicted: ${key}`);
+interface Counters {
+  hits: number;
+  misses: number;
+  sets: number;
+  evictions: number;
+  deletes: number;
+}
+
+// Keys matching no configured prefix are counted under this one
+const OTHER_KEYS = '*';
+
+/**
+ * Advanced cache manager with priority-based eviction and memory management.
+ *
+ * Lower priorities are evicted first (see PriorityCache). Besides the entry count,
+ * the cache can be bounded by `maxBytes` and by a quota of entries per priority.
+ * Once either limit is `pressureThreshold` full, the cache emits 'pressure' so
+ * that producers can slow down; 'pressureRelieved' follows when usage drops again.
+ *
+ * Operations are reported as events: 'set' and 'hit' ({ key, entry }), 'miss'
+ * ({ key }) and 'evict' ({ key, entry, reason }), where reason is 'ttl',
+ * 'capacity', 'manual' (delete/clear) or 'optimize'. Replacing a value is not
+ * an eviction. Counters are kept in total and per key prefix.
+ *
+ * With a storage adapter, entries are persisted and loaded back on construction
+ * (`ready` settles once they are). Failed loads and background writes are counted
+ * and reported through the 'storageError' event. In write-through mode every change is written
+ * before the call returns; in write-behind mode changes are batched and written
+ * after `flushInterval` ms, on flush() or on close().
+ */
+export class CacheManager extends EventEmitter {
+  readonly ready: Promise<void>;
+  private cache: PriorityCache;
+  private maxEntries: number;
+  private maxBytes?: number;
+  private pressureThreshold: number;
+  private pressured = false;
+  private storage?: StorageAdapter;
+  private writeMode: 'write-through' | 'write-behind';
+  private flushInterval: number;
+  private loaded: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+  private pending: Map<string, StorageOperation> = new Map();
+  private pendingClear = false;
+  private flushTimer?: NodeJS.Timeout;
+  private stats: Counters = CacheManager.counters();
+  private evictionsByReason: Record<CacheEvictionReason, number> = { ttl: 0, capacity: 0, manual: 0, optimize: 0 };
+  private keyPrefixes: string[];
+  private prefixStats: Map<string, Counters> = new Map();
+  private storageErrors = 0;
+
+  constructor(maxSize: number = 1000, maxAge: number = 300000, options: CacheManagerOptions = {}) { // 5 minutes default
+    super();
+    this.maxEntries = maxSize;
+    this.maxBytes = options.maxBytes;
+    this.pressureThreshold = options.pressureThreshold ?? 0.9;
+    this.cache = new PriorityCache({
+      maxEntries: maxSize,
+      maxBytes: options.maxBytes,
+      quotas: options.priorityQuotas,
+      policy: options.evictionPolicy,
+      onRemove: (key, entry, reason) => {
+        if (reason === 'overwrite') {
+          return;
+        }
+        this.evicted(key, entry, reason);
+
+        // Entries the cache dropped by itself must not come back on the next start
+        if (reason === 'capacity' || reason === 'ttl') {
+          this.persist({ type: 'delete', key }).catch(error => this.storageFailed(error));
+        }
       }
     });
+
+    // Longest prefix first, so that 'msg_ack_' wins over 'msg_'
+    this.keyPrefixes = [...(options.keyPrefixes ?? ['msg_'])].sort((a, b) => b.length - a.length);
+
+    this.storage = options.storage;
+    this.writeMode = options.writeMode ?? 'write-through';
+    this.flushInterval = options.flushInterval ?? 1000;
+    this.ready = this.storage ? this.warmUp(this.storage) : Promise.resolve();
+    this.loaded = this.ready.catch(error => this.storageFailed(error));
+  }
+
+  /**
+   * Zeroed counters
+   */
+  private static counters(): Counters {
+    return { hits: 0, misses: 0, sets: 0, evictions: 0, deletes: 0 };
+  }
+
+  /**
+   * Increment a counter in total and for the prefix of a key
+   */
+  private count(key: string, counter: keyof Counters): void {
+    const prefix = this.keyPrefixes.find(candidate => key.startsWith(candidate)) ?? OTHER_KEYS;
+    let counters = this.prefixStats.get(prefix);
+    if (!counters) {
+      counters = CacheManager.counters();
+      this.prefixStats.set(prefix, counters);
+    }
+
+    this.stats[counter]++;
+    counters[counter]++;
+  }
+
+  /**
+   * Count and report an entry leaving the cache
+   */
+  private evicted(key: string, entry: CacheEntry, reason: CacheEvictionReason): void {
+    this.count(key, reason === 'manual' ? 'deletes' : 'evictions');
+    this.evictionsByReason[reason]++;
+    this.emit('evict', { key, entry, reason });
+  }
+
+  /**
+   * Count and report a storage failure nobody awaits
+   */
+  private storageFailed(error: Error): void {
+    this.storageErrors++;
+    this.emit('storageError', error);
+  }
+
+  /**
+   * Load the persisted entries that have not expired
+   */
+  private async warmUp(storage: StorageAdapter): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of await storage.load()) {
+      const remaining = entry.timestamp + entry.ttl - now;
+      if (remaining > 0) {
+        this.cache.set(entry.key, entry, remaining);
+      } else {
+        await this.persist({ type: 'delete', key: entry.key });
+      }
+    }
+    this.checkPressure();
+  }
+
+  /**
+   * Current usage of the tighter of the entry and byte limits
+   */
+  getPressure(): CachePressure {
+    const bytes = this.cache.byteSize;
+    const usage = Math.max(
+      this.cache.size / this.maxEntries,
+      this.maxBytes ? bytes / this.maxBytes : 0
+    );
+
+    return { bytes, maxBytes: this.maxBytes, entries: this.cache.size, maxEntries: this.maxEntries, usage: Math.min(usage, 1) };
+  }
+
+  /**
+   * Whether the cache is near its limit
+   */
+  isUnderPressure(): boolean {
+    return this.pressured;
+  }
+
+  /**
+   * Emit 'pressure' or 'pressureRelieved' when usage crosses the threshold
+   */
+  private checkPressure(): void {
+    const pressure = this.getPressure();
+    const pressured = pressure.usage >= this.pressureThreshold;
+
+    if (pressured !== this.pressured) {
+      this.pressured = pressured;
+      this.emit(pressured ? 'pressure' : 'pressureRelieved', pressure);
+    }
+  }
+
+  /**
+   * Write changes to the storage adapter according to the write mode
+   */
+  private persist(operation: StorageOperation): Promise<void> {
+    if (!this.storage) {
+      return Promise.resolve();
+    }
+
+    if (this.writeMode === 'write-through') {
+      return this.write([operation]);
+    }
+
+    if (operation.type === 'clear') {
+      this.pending.clear();
+      this.pendingClear = true;
+    } else {
+      this.pending.set(operation.type === 'set' ? operation.entry.key : operation.key, operation);
+    }
+
+    this.flushTimer ??= setTimeout(() => {
+      this.flush().catch(error => this.storageFailed(error));
+    }, this.flushInterval).unref();
+    return Promise.resolve();
+  }
+
+  /**
+   * Apply a batch after the writes before it
+   */
+  private write(operations: StorageOperation[]): Promise<void> {
+    const written = this.writes.then(() => this.storage!.apply(operations));
+    this.writes = written.catch(() => undefined);
+    return written;
+  }
+
+  /**
+   * Write the changes batched in write-behind mode
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const operations: StorageOperation[] = this.pendingClear ? [{ type: 'clear' }] : [];
+    operations.push(...this.pending.values());
+    this.pending.clear();
+    this.pendingClear = false;
+
+    await (operations.length > 0 ? this.write(operations) : this.writes);
+  }
+
+  /**
+   * Flush pending changes and close the storage adapter
+   */
+  async close(): Promise<void> {
+    await this.loaded;
+    await this.flush();
+    await this.storage?.close();
   }
 
   /**
    * Store data in cache with priority and TTL
    */
   async set(key: string, value: any, ttl?: number, priority: Priority = Priority.NORMAL): Promise<void> {
+    await this.loaded;
+
     const entry: CacheEntry = {
       key,
       value,
@@ -39,22 +252,38 @@ export class CacheManager {
       priority
     };
 
-    this.cache.set(key, entry, { ttl: entry.ttl });
-    this.stats.sets++;
+    this.count(key, 'sets');
+    // An entry that does not fit replaces the previous value, and is reported and deleted as an eviction
+    const cached = this.cache.set(key, entry);
+    if (cached) {
+      this.emit('set', { key, entry });
+    }
+    this.checkPressure();
+    if (cached) {
+      await this.persist({ type: 'set', entry });
+    } else {
+      // The eviction has queued the delete already
+      await this.writes;
+    }
   }
 
   /**
    * Retrieve data from cache
    */
   async get(key: string): Promise<any> {
+    await this.loaded;
+
     const entry = this.cache.get(key);
     
     if (entry) {
       entry.accessCount++;
-      this.stats.hits++;
+      this.count(key, 'hits');
+      this.emit('hit', { key, entry });
       return entry.value;
     } else {
-      this.stats.misses++;
+      this.count(key, 'misses');
+      this.emit('miss', { key });
+      this.checkPressure();
       return null;
     }
   }
@@ -63,6 +292,7 @@ export class CacheManager {
    * Check if key exists in cache
    */
   async has(key: string): Promise<boolean> {
+    await this.loaded;
     return this.cache.has(key);
   }
 
@@ -70,23 +300,51 @@ export class CacheManager {
    * Delete entry from cache
    */
   async delete(key: string): Promise<boolean> {
-    return this.cache.delete(key);
+    await this.loaded;
+
+    const deleted = this.cache.delete(key);
+    if (deleted) {
+      this.checkPressure();
+      await this.persist({ type: 'delete', key });
+    }
+    return deleted;
   }
 
   /**
    * Clear all cache entries
    */
   async clear(): Promise<void> {
+    await this.loaded;
+
     this.cache.clear();
+    this.checkPressure();
+    await this.persist({ type: 'clear' });
   }
 
   /**
    * Get cache statistics
    */
   getStats(): any {
+    const bytesByPriority: Record<string, number> = {};
+    for (const [priority, bytes] of this.cache.bytesByPriority()) {
+      bytesByPriority[Priority[priority]] = bytes;
+    }
+
+    const byPrefix: Record<string, Counters & { hitRate: number }> = {};
+    for (const [prefix, counters] of this.prefixStats) {
+      byPrefix[prefix] = { ...counters, hitRate: counters.hits / (counters.hits + counters.misses) || 0 };
+    }
+
     return {
       ...this.stats,
+      evictionsByReason: { ...this.evictionsByReason },
+      byPrefix,
       size: this.cache.size,
+      bytes: this.cache.byteSize,
+      maxBytes: this.maxBytes,
+      bytesByPriority,
+      underPressure: this.pressured,
+      storageErrors: this.storageErrors,
       hitRate: this.stats.hits / (this.stats.hits + this.stats.misses) || 0
     };
   }
@@ -123,9 +381,10 @@ export class CacheManager {
 
     // Remove candidates
     candidates.forEach(key => {
-      this.cache.delete(key);
-      this.stats.evictions++;
+      this.cache.delete(key, 'optimize');
+      this.persist({ type: 'delete', key }).catch(error => this.storageFailed(error));
     });
+    this.checkPressure();
   }
 
   /**
@@ -0,0 +1,135 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { PriorityCache } from './PriorityCache';
+import { CacheEntry, Priority, PriorityCacheOptions } from '../types';
+
+function entry(key: string, priority: Priority, value: any = key, accessCount = 0): CacheEntry {
+  return { key, value, timestamp: Date.now(), ttl: 60000, accessCount, priority };
+}
+
+function cacheOf(options: Partial<PriorityCacheOptions>, evicted: string[] = []): PriorityCache {
+  return new PriorityCache({
+    maxEntries: 3,
+    onRemove: (key, _, reason) => {
+      if (reason === 'capacity') {
+        evicted.push(key);
+      }
+    },
+    ...options
+  });
+}
+
+describe('PriorityCache', () => {
+  it('never evicts an entry while one of lower priority is cached', () => {
+    const priority = fc.constantFrom(Priority.LOW, Priority.NORMAL, Priority.HIGH, Priority.CRITICAL);
+
+    fc.assert(fc.property(fc.array(priority, { minLength: 1, maxLength: 40 }), fc.constantFrom('lru' as const, 'lfu' as const), (priorities, policy) => {
+      const evicted: string[] = [];
+      const cache = cacheOf({ maxEntries: 5, policy }, evicted);
+      const priorityOf = new Map<string, Priority>();
+
+      priorities.forEach((p, index) => {
+        const key = `k${index}`;
+        priorityOf.set(key, p);
+        evicted.length = 0;
+        cache.set(key, entry(key, p));
+
+        const lowestKept = Math.min(...Array.from(cache.entries(), ([, e]) => e.priority));
+        for (const key of evicted) {
+          expect(priorityOf.get(key)).toBeLessThanOrEqual(lowestKept);
+        }
+      });
+    }));
+  });
+
+  it('evicts the least recently used entry of the lowest priority', () => {
+    const evicted: string[] = [];
+    const cache = cacheOf({ policy: 'lru' }, evicted);
+
+    cache.set('critical', entry('critical', Priority.CRITICAL));
+    cache.set('a', entry('a', Priority.LOW));
+    cache.set('b', entry('b', Priority.LOW));
+    cache.get('a');
+    cache.set('c', entry('c', Priority.NORMAL));
+
+    expect(evicted).toEqual(['b']);
+  });
+
+  it('evicts the least frequently used entry under LFU', () => {
+    const evicted: string[] = [];
+    const cache = cacheOf({ policy: 'lfu' }, evicted);
+
+    cache.set('a', entry('a', Priority.LOW, 'a', 5));
+    cache.set('b', entry('b', Priority.LOW, 'b', 1));
+    cache.set('c', entry('c', Priority.LOW, 'c', 3));
+    cache.get('b');
+    cache.set('d', entry('d', Priority.HIGH));
+
+    expect(evicted).toEqual(['b']);
+  });
+
+  it('lets a busy low entry outlive an unused high one under priority-weighted', () => {
+    const evicted: string[] = [];
+    const cache = cacheOf({ maxEntries: 2, policy: 'priority-weighted' }, evicted);
+
+    cache.set('busy', entry('busy', Priority.LOW, 'busy', 20));
+    cache.set('idle', entry('idle', Priority.HIGH));
+    cache.set('new', entry('new', Priority.NORMAL, 'new', 5));
+
+    expect(evicted).toEqual(['idle']);
+  });
+
+  it('caps a priority at its quota without touching the others', () => {
+    const evicted: string[] = [];
+    const cache = cacheOf({ maxEntries: 10, quotas: { [Priority.LOW]: 2 } }, evicted);
+
+    cache.set('normal', entry('normal', Priority.NORMAL));
+    ['a', 'b', 'c', 'd'].forEach(key => cache.set(key, entry(key, Priority.LOW)));
+
+    expect(evicted).toEqual(['a', 'b']);
+    expect(Array.from(cache.entries(), ([key]) => key)).toEqual(['normal', 'c', 'd']);
+  });
+
+  it('bounds the summed size in bytes', () => {
+    const evicted: string[] = [];
+    const cache = cacheOf({ maxEntries: 100, maxBytes: 10, sizeOf: value => value.length }, evicted);
+
+    cache.set('a', entry('a', Priority.NORMAL, 'xxxx'));
+    cache.set('b', entry('b', Priority.LOW, 'xxxx'));
+    cache.set('c', entry('c', Priority.NORMAL, 'xxxx'));
+
+    expect(evicted).toEqual(['b']);
+    expect(cache.byteSize).toBe(8);
+    expect(cache.set('huge', entry('huge', Priority.CRITICAL, 'x'.repeat(11)))).toBe(false);
+    expect(cache.has('huge')).toBe(false);
+    expect(evicted).toEqual(['b', 'huge']);
+    expect(cache.size).toBe(2);
+  });
+
+  it('reports an entry evicted as soon as it is stored as not kept', () => {
+    const evicted: string[] = [];
+    const cache = cacheOf({}, evicted);
+    ['a', 'b', 'c'].forEach(key => cache.set(key, entry(key, Priority.HIGH)));
+
+    expect(cache.set('low', entry('low', Priority.LOW))).toBe(false);
+    expect(evicted).toEqual(['low']);
+    expect(cache.has('low')).toBe(false);
+    expect(cache.set('d', entry('d', Priority.CRITICAL))).toBe(true);
+  });
+
+  it('evicts expired entries before live ones', () => {
+    const evicted: string[] = [];
+    const expired: string[] = [];
+    const cache = cacheOf({
+      maxEntries: 2,
+      onRemove: (key, _, reason) => (reason === 'ttl' ? expired : evicted).push(key)
+    });
+
+    cache.set('stale', entry('stale', Priority.CRITICAL), -1);
+    cache.set('low', entry('low', Priority.LOW));
+    cache.set('new', entry('new', Priority.LOW));
+
+    expect(expired).toEqual(['stale']);
+    expect(evicted).toEqual([]);
+  });
+});
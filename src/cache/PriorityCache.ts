@@ -0,0 +1,264 @@
+import { CacheEntry, CacheRemovalReason, EvictionPolicy, Priority, PriorityCacheOptions } from '../types';
+import { sizeOf } from '../utils/size';
+
+/**
+ * An entry and its bookkeeping
+ */
+interface Slot {
+  entry: CacheEntry;
+  size: number;
+  expiresAt: number;
+  lastAccess: number;
+}
+
+/**
+ * In-memory store that evicts by priority.
+ *
+ * Entries live in one bucket per priority, each kept in recency order. When the
+ * store exceeds its entry count or byte limit, expired entries go first, then
+ * entries of the lowest priority present: the least recently used one ('lru') or
+ * the least frequently used one ('lfu'). The 'priority-weighted' policy instead
+ * evicts the entry of lowest weight across all priorities, so a long idle HIGH
+ * entry can go before a busy LOW one. A priority over its quota evicts within
+ * itself, so a burst of LOW entries cannot push out anything else. Reading an
+ * entry renews its TTL.
+ */
+export class PriorityCache {
+  private maxEntries: number;
+  private maxBytes: number;
+  private quotas: Partial<Record<Priority, number>>;
+  private policy: EvictionPolicy;
+  private sizeOf: (value: any) => number;
+  private onRemove?: (key: string, entry: CacheEntry, reason: CacheRemovalReason) => void;
+  private slots: Map<string, Slot> = new Map();
+  private buckets: Map<Priority, Map<string, Slot>> = new Map();
+  private bytes = 0;
+
+  constructor(options: PriorityCacheOptions) {
+    this.maxEntries = options.maxEntries;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.quotas = options.quotas ?? {};
+    this.policy = options.policy ?? 'lru';
+    this.sizeOf = options.sizeOf ?? (value => sizeOf(value));
+    this.onRemove = options.onRemove;
+  }
+
+  /**
+   * Number of entries, including expired ones not yet removed
+   */
+  get size(): number {
+    return this.slots.size;
+  }
+
+  /**
+   * Summed size of the entries in bytes
+   */
+  get byteSize(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Summed size of the entries of each priority
+   */
+  bytesByPriority(): Map<Priority, number> {
+    const bytes = new Map<Priority, number>();
+    for (const [priority, bucket] of this.buckets) {
+      let total = 0;
+      for (const slot of bucket.values()) {
+        total += slot.size;
+      }
+      bytes.set(priority, total);
+    }
+    return bytes;
+  }
+
+  /**
+   * Store an entry for `ttl` ms. Returns false when the entry is not kept: it
+   * alone exceeds the byte limit, or it was the one evicted to make room.
+   * Either way it is reported as a 'capacity' removal.
+   */
+  set(key: string, entry: CacheEntry, ttl: number = entry.ttl): boolean {
+    const size = this.sizeOf(entry.value);
+    this.remove(key, 'overwrite');
+    if (size > this.maxBytes) {
+      this.onRemove?.(key, entry, 'capacity');
+      return false;
+    }
+
+    const now = Date.now();
+    const slot: Slot = { entry, size, expiresAt: now + ttl, lastAccess: now };
+    this.slots.set(key, slot);
+    this.bucket(entry.priority).set(key, slot);
+    this.bytes += size;
+
+    this.enforceLimits(entry.priority);
+    return this.slots.get(key) === slot;
+  }
+
+  /**
+   * The live entry for a key, marked as used
+   */
+  get(key: string): CacheEntry | undefined {
+    const slot = this.live(key);
+    if (!slot) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    slot.lastAccess = now;
+    slot.expiresAt = now + slot.entry.ttl;
+    const bucket = this.bucket(slot.entry.priority);
+    bucket.delete(key);
+    bucket.set(key, slot);
+    return slot.entry;
+  }
+
+  /**
+   * Whether a live entry exists, without marking it as used
+   */
+  has(key: string): boolean {
+    return this.live(key) !== undefined;
+  }
+
+  /**
+   * Remove an entry
+   */
+  delete(key: string, reason: 'manual' | 'optimize' = 'manual'): boolean {
+    return this.remove(key, reason);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    for (const key of Array.from(this.slots.keys())) {
+      this.remove(key, 'manual');
+    }
+  }
+
+  /**
+   * Live entries in insertion order
+   */
+  *entries(): IterableIterator<[string, CacheEntry]> {
+    const now = Date.now();
+    for (const [key, slot] of this.slots) {
+      if (slot.expiresAt > now) {
+        yield [key, slot.entry];
+      }
+    }
+  }
+
+  /**
+   * The slot for a key unless it expired, in which case it is removed
+   */
+  private live(key: string): Slot | undefined {
+    const slot = this.slots.get(key);
+    if (slot && slot.expiresAt <= Date.now()) {
+      this.remove(key, 'ttl');
+      return undefined;
+    }
+    return slot;
+  }
+
+  /**
+   * Evict until the quota of `priority` and the global limits hold
+   */
+  private enforceLimits(priority: Priority): void {
+    const quota = this.quotas[priority];
+    if (quota !== undefined) {
+      while (this.bucket(priority).size > quota) {
+        this.remove(this.victim([priority])!, 'capacity');
+      }
+    }
+
+    if (this.slots.size > this.maxEntries || this.bytes > this.maxBytes) {
+      this.purgeExpired();
+    }
+    while (this.slots.size > this.maxEntries || this.bytes > this.maxBytes) {
+      this.remove(this.victim(Array.from(this.buckets.keys()))!, 'capacity');
+    }
+  }
+
+  /**
+   * The key to evict among the given priorities
+   */
+  private victim(priorities: Priority[]): string | undefined {
+    const present = priorities.filter(priority => this.bucket(priority).size > 0);
+
+    if (this.policy === 'priority-weighted') {
+      const now = Date.now();
+      let lowest: [string, number] | undefined;
+      for (const priority of present) {
+        for (const [key, slot] of this.bucket(priority)) {
+          const weight = this.weight(slot, now);
+          if (!lowest || weight < lowest[1]) {
+            lowest = [key, weight];
+          }
+        }
+      }
+      return lowest?.[0];
+    }
+
+    const bucket = this.bucket(Math.min(...present) as Priority);
+    if (this.policy === 'lru') {
+      return bucket.keys().next().value;
+    }
+
+    // LFU: the least used entry, the least recently used one on ties
+    let lowest: [string, number] | undefined;
+    for (const [key, slot] of bucket) {
+      if (!lowest || slot.entry.accessCount < lowest[1]) {
+        lowest = [key, slot.entry.accessCount];
+      }
+    }
+    return lowest?.[0];
+  }
+
+  /**
+   * Retention weight: priority and use raise it, idle time (relative to the TTL) lowers it
+   */
+  private weight(slot: Slot, now: number): number {
+    const idle = (now - slot.lastAccess) / slot.entry.ttl;
+    return (slot.entry.priority + 1) * (slot.entry.accessCount + 1) / (1 + idle);
+  }
+
+  /**
+   * Remove every expired entry
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, slot] of Array.from(this.slots)) {
+      if (slot.expiresAt <= now) {
+        this.remove(key, 'ttl');
+      }
+    }
+  }
+
+  /**
+   * Remove an entry and report why
+   */
+  private remove(key: string, reason: CacheRemovalReason): boolean {
+    const slot = this.slots.get(key);
+    if (!slot) {
+      return false;
+    }
+
+    this.slots.delete(key);
+    this.bucket(slot.entry.priority).delete(key);
+    this.bytes -= slot.size;
+    this.onRemove?.(key, slot.entry, reason);
+    return true;
+  }
+
+  /**
+   * The recency-ordered entries of a priority
+   */
+  private bucket(priority: Priority): Map<string, Slot> {
+    let bucket = this.buckets.get(priority);
+    if (!bucket) {
+      bucket = new Map();
+      this.buckets.set(priority, bucket);
+    }
+    return bucket;
+  }
+}
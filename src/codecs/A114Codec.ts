@@ -0,0 +1,30 @@
+import { A114EncodeOptions, Codec } from '../types';
+import { A114Protocol } from '../protocols/A114Protocol';
+import { toBuffer } from '../utils/buffer';
+
+/**
+ * A114 encoding: content as an A114 packet
+ */
+export class A114Codec implements Codec {
+  readonly id: string;
+  private protocol: A114Protocol;
+  private options: A114EncodeOptions;
+
+  constructor(protocol: A114Protocol = new A114Protocol(), options: A114EncodeOptions = {}, id: string = 'a114') {
+    this.protocol = protocol;
+    this.options = options;
+    this.id = id;
+  }
+
+  encode(content: any): Promise<Buffer> {
+    return this.protocol.encode(content, this.options);
+  }
+
+  decode(data: any): Promise<any> {
+    return this.protocol.decode(toBuffer(data));
+  }
+
+  async estimateSize(content: any): Promise<number> {
+    return (await this.encode(content)).length;
+  }
+}
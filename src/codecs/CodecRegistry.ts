@@ -0,0 +1,58 @@
+import { Codec, EncodingType } from '../types';
+
+// Codec ids behind the built-in EncodingType values
+const ENCODING_IDS: { [encoding: number]: string } = {
+  [EncodingType.JSON]: 'json',
+  [EncodingType.BINARY]: 'msgpack',
+  [EncodingType.A114]: 'a114',
+  [EncodingType.COMPRESSED_JSON]: 'compressed-json'
+};
+
+/**
+ * Registry of message content codecs, looked up by EncodingType or codec id
+ */
+export class CodecRegistry {
+  private codecs: Map<string, Codec> = new Map();
+
+  /**
+   * Register a codec under its id, replacing any codec with the same id
+   */
+  register(codec: Codec): void {
+    if (!codec.id) {
+      throw new Error('Codec id is required');
+    }
+    this.codecs.set(codec.id, codec);
+  }
+
+  /**
+   * Get the codec for an encoding
+   */
+  get(encoding: EncodingType | string | number): Codec {
+    const codec = this.codecs.get(this.resolve(encoding));
+    if (!codec) {
+      throw new Error(`Unknown encoding: ${encoding}`);
+    }
+    return codec;
+  }
+
+  /**
+   * Check whether an encoding has a codec
+   */
+  has(encoding: EncodingType | string | number): boolean {
+    return this.codecs.has(this.resolve(encoding));
+  }
+
+  /**
+   * Ids of all registered codecs
+   */
+  list(): string[] {
+    return Array.from(this.codecs.keys());
+  }
+
+  /**
+   * Map an EncodingType to its codec id; strings are codec ids already
+   */
+  private resolve(encoding: EncodingType | string | number): string {
+    return typeof encoding === 'number' ? ENCODING_IDS[encoding] ?? String(encoding) : encoding;
+  }
+}
@@ -0,0 +1,26 @@
+import * as zlib from 'zlib';
+import { AIMessage, Codec, CompactMessage } from '../types';
+import { toBuffer } from '../utils/buffer';
+
+/**
+ * COMPRESSED_JSON encoding: the JSON text, deflate- or brotli-compressed
+ * as requested by `AIMessage.compression` (default: deflate)
+ */
+export class CompressedJsonCodec implements Codec {
+  readonly id = 'compressed-json';
+
+  encode(content: any, message?: AIMessage): Buffer {
+    const json = Buffer.from(JSON.stringify(content ?? null), 'utf8');
+    return message?.compression === 'brotli' ? zlib.brotliCompressSync(json) : zlib.deflateSync(json);
+  }
+
+  decode(data: any, compact?: CompactMessage): any {
+    const compressed = toBuffer(data);
+    const json = compact?.z === 'brotli' ? zlib.brotliDecompressSync(compressed) : zlib.inflateSync(compressed);
+    return JSON.parse(json.toString('utf8'));
+  }
+
+  estimateSize(content: any): number {
+    return this.encode(content).length;
+  }
+}
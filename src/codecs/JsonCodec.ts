@@ -0,0 +1,20 @@
+import { Codec } from '../types';
+
+/**
+ * JSON encoding: content is carried unchanged
+ */
+export class JsonCodec implements Codec {
+  readonly id = 'json';
+
+  encode(content: any): any {
+    return content;
+  }
+
+  decode(data: any): any {
+    return data;
+  }
+
+  estimateSize(content: any): number {
+    return Buffer.byteLength(JSON.stringify(content ?? null), 'utf8');
+  }
+}
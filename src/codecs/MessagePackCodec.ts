@@ -0,0 +1,23 @@
+import { Codec } from '../types';
+import { MessagePack } from '../utils/MessagePack';
+import { toBuffer } from '../utils/buffer';
+
+/**
+ * BINARY encoding: MessagePack bytes
+ */
+export class MessagePackCodec implements Codec {
+  readonly id = 'msgpack';
+  private messagePack = new MessagePack();
+
+  encode(content: any): Buffer {
+    return this.messagePack.encode(content);
+  }
+
+  decode(data: any): any {
+    return this.messagePack.decode(toBuffer(data));
+  }
+
+  estimateSize(content: any): number {
+    return this.encode(content).length;
+  }
+}
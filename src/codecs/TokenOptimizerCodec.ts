@@ -0,0 +1,37 @@
+import { AIMessage, Codec, CompactMessage, CompressionMode } from '../types';
+import { TokenOptimizer } from '../utils/TokenOptimizer';
+
+/**
+ * Token-optimized JSON: abbreviated keys and deflated long strings, losslessly.
+ * With a resolver, messages naming an abbreviation dictionary use the optimizer
+ * of that dictionary.
+ */
+export class TokenOptimizerCodec implements Codec {
+  readonly id = 'token-optimizer';
+  private optimizer: TokenOptimizer;
+  private resolve?: (dictionaryId: string) => TokenOptimizer;
+
+  constructor(optimizer: TokenOptimizer = new TokenOptimizer(), resolve?: (dictionaryId: string) => TokenOptimizer) {
+    this.optimizer = optimizer;
+    this.resolve = resolve;
+  }
+
+  encode(content: any, message?: AIMessage): any {
+    return this.optimizerFor(message?.dictionary).compress(content, CompressionMode.LOSSLESS);
+  }
+
+  decode(data: any, compact?: CompactMessage): any {
+    return this.optimizerFor(compact?.d).decompress(data, CompressionMode.LOSSLESS);
+  }
+
+  estimateSize(content: any): number {
+    return Buffer.byteLength(JSON.stringify(this.encode(content) ?? null), 'utf8');
+  }
+
+  /**
+   * Optimizer of a dictionary, or the default one
+   */
+  private optimizerFor(dictionaryId?: string): TokenOptimizer {
+    return dictionaryId !== undefined && this.resolve ? this.resolve(dictionaryId) : this.optimizer;
+  }
+}
@@ -0,0 +1,601 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AIProcessingLayer } from './AIProcessingLayer';
+import { MessagePack } from '../utils/MessagePack';
+import { SQLiteStorageAdapter } from '../storage/SQLiteStorageAdapter';
+import { TokenOptimizer } from '../utils/TokenOptimizer';
+import { dictionaryHash } from '../utils/dictionary';
+import { AbbreviationDictionary, AIMessage, CompressionMode, EncodingType, MessageType, Priority } from '../types';
+
+/**
+ * A message with the given encoding and content
+ */
+const message = (encoding: EncodingType | string, content: any, extra: Partial<AIMessage> = {}): AIMessage => ({
+  id: 'msg_1',
+  timestamp: 1700000000000,
+  senderId: 'agent1',
+  receiverId: 'agent2',
+  content,
+  messageType: MessageType.INSTRUCTION,
+  priority: Priority.HIGH,
+  compressed: false,
+  encoding,
+  ...extra
+});
+
+describe('AIProcessingLayer', () => {
+  describe('content encodings', () => {
+    const layer = new AIProcessingLayer();
+    for (const id of ['agent1', 'agent2']) {
+      layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+    }
+
+    /**
+     * Send a message and get both its stored compact form and the delivered message
+     */
+    const deliver = async (original: AIMessage) => {
+      expect(await layer.sendMessage(original)).toBe(true);
+      const compact = await layer.recallMessage(original.id, original.receiverId);
+      const [delivered] = await layer.receive(original.receiverId);
+      layer.ack(original.receiverId, original.id);
+      return { compact, delivered };
+    };
+
+    const content = { instruction: 'Analyze The  Data', values: [1, 2.5, -3], nested: { ok: true } };
+
+    it('leaves JSON content untouched', async () => {
+      const { compact, delivered } = await deliver(message(EncodingType.JSON, content));
+
+      expect(compact.c).toEqual(content);
+      expect(compact.cp).toBe(false);
+      expect(delivered.content).toEqual(content);
+    });
+
+    it.each(['deflate', 'brotli'] as const)('compresses COMPRESSED_JSON content with %s', async compression => {
+      const { compact, delivered } = await deliver(message(EncodingType.COMPRESSED_JSON, content, { compression }));
+      const inflate = compression === 'brotli' ? zlib.brotliDecompressSync : zlib.inflateSync;
+
+      expect(JSON.parse(inflate(compact.c).toString())).toEqual(content);
+      expect(delivered.content).toEqual(content);
+      expect(delivered.compression).toBe(compression);
+    });
+
+    it('encodes BINARY content as MessagePack', async () => {
+      const { compact, delivered } = await deliver(message(EncodingType.BINARY, content));
+
+      expect(new MessagePack().decode(compact.c)).toEqual(content);
+      expect(delivered.content).toEqual(content);
+    });
+
+    it('passes already compressed content through', async () => {
+      const packed = zlib.gzipSync('precompressed');
+      const { compact, delivered } = await deliver(message(EncodingType.COMPRESSED_JSON, packed, { compressed: true }));
+
+      expect(compact.c).toBe(packed);
+      expect(delivered.compressed).toBe(true);
+      expect(delivered.content).toBe(packed);
+    });
+
+    it('applies token optimization when a compression mode is set', async () => {
+      const { compact, delivered } = await deliver(message(EncodingType.JSON, content, { compressionMode: CompressionMode.LOSSLESS }));
+
+      expect(compact.c).not.toEqual(content);
+      expect(delivered.content).toEqual(content);
+    });
+  });
+
+  describe('inbox', () => {
+    /**
+     * A layer with two registered agents
+     */
+    const createLayer = () => {
+      const layer = new AIProcessingLayer();
+      for (const id of ['agent1', 'agent2']) {
+        layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      }
+      return layer;
+    };
+
+    it('keeps delivered messages until they are acknowledged', async () => {
+      const layer = createLayer();
+      await layer.sendMessage(message(EncodingType.JSON, 'first'));
+      await layer.sendMessage(message(EncodingType.JSON, 'second', { id: 'msg_2' }));
+
+      expect((await layer.receive('agent2')).map(received => received.content)).toEqual(['first', 'second']);
+      expect((await layer.receive('agent2', 1)).map(received => received.id)).toEqual(['msg_1']);
+      expect(await layer.receive('agent1')).toEqual([]);
+
+      expect(layer.ack('agent2', 'msg_1')).toBe(true);
+      expect(layer.ack('agent2', 'msg_1')).toBe(false);
+      expect((await layer.receive('agent2')).map(received => received.id)).toEqual(['msg_2']);
+    });
+
+    it('removes acknowledged messages from the agent\'s memory', async () => {
+      const layer = createLayer();
+      const memory = new Map<string, any>();
+      layer.registerAgent({ id: 'agent2', name: 'agent2', capabilities: [], memoryContext: memory, lastActive: 0 });
+      await layer.sendMessage(message(EncodingType.JSON, 'content'));
+      expect(memory.has('msg_msg_1')).toBe(true);
+
+      layer.ack('agent2', 'msg_1');
+      expect(memory.has('msg_msg_1')).toBe(false);
+    });
+
+    it('hands decoded messages to subscribers until they unsubscribe', async () => {
+      const layer = createLayer();
+      const received: AIMessage[] = [];
+      let arrived!: () => void;
+      const next = () => new Promise<void>(resolve => {
+        arrived = resolve;
+      });
+      const unsubscribe = layer.onMessage('agent2', incoming => {
+        received.push(incoming);
+        arrived();
+      });
+
+      const first = next();
+      await layer.sendMessage(message(EncodingType.JSON, { text: 'hello' }));
+      await first;
+      expect(received).toEqual([message(EncodingType.JSON, { text: 'hello' })]);
+
+      unsubscribe();
+      await layer.sendMessage(message(EncodingType.JSON, 'ignored', { id: 'msg_2' }));
+      await new Promise(resolve => setImmediate(resolve));
+      expect(received).toHaveLength(1);
+    });
+
+    it('wakes a waiting iterator when a message arrives', async () => {
+      const layer = createLayer();
+      await layer.sendMessage(message(EncodingType.JSON, 'pending'));
+      const iterator = layer.messages('agent2');
+
+      expect((await iterator.next()).value.content).toBe('pending');
+
+      const waiting = iterator.next();
+      let settled = false;
+      waiting.then(() => {
+        settled = true;
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(settled).toBe(false);
+
+      await layer.sendMessage(message(EncodingType.JSON, 'later', { id: 'msg_2' }));
+      expect((await waiting).value.content).toBe('later');
+      await iterator.return!(undefined);
+    });
+
+    it('forgets acknowledged ids, so a redelivered id is yielded again', async () => {
+      const layer = createLayer();
+      const iterator = layer.messages('agent2');
+      await layer.sendMessage(message(EncodingType.JSON, 'first'));
+      expect((await iterator.next()).value.content).toBe('first');
+
+      layer.ack('agent2', 'msg_1');
+      const waiting = iterator.next();
+      await layer.sendMessage(message(EncodingType.JSON, 'again'));
+      expect((await waiting).value.content).toBe('again');
+      await iterator.return!(undefined);
+    });
+  });
+
+
+  describe('message expansion', () => {
+    const content = { instruction: 'analyze the data', limit: 2.5, flags: { urgent: true } };
+
+    /**
+     * A layer with two registered agents
+     */
+    const createLayer = () => {
+      const layer = new AIProcessingLayer();
+      for (const id of ['agent1', 'agent2']) {
+        layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      }
+      return layer;
+    };
+
+    it('restores the field names, enums and content of each encoding', async () => {
+      const layer = createLayer();
+
+      for (const encoding of [EncodingType.JSON, EncodingType.COMPRESSED_JSON, EncodingType.BINARY, EncodingType.A114]) {
+        const original = message(encoding, content, { id: `msg_${encoding}`, messageType: MessageType.RESPONSE, priority: Priority.CRITICAL });
+        await layer.sendMessage(original);
+
+        const compact = await layer.recallMessage(original.id, 'agent2');
+        expect(compact).toMatchObject({ i: original.id, s: 'agent1', r: 'agent2', mt: MessageType.RESPONSE, p: Priority.CRITICAL });
+        for (const expanded of [await layer.expandMessage(compact), await layer.recallMessage(original.id, 'agent2', { expand: true })]) {
+          expect(expanded).toMatchObject({ id: original.id, timestamp: original.timestamp, senderId: 'agent1', receiverId: 'agent2', encoding });
+          expect(expanded.messageType).toBe(MessageType.RESPONSE);
+          expect(expanded.priority).toBe(Priority.CRITICAL);
+          expect(expanded.content).toEqual(content);
+        }
+      }
+    });
+
+    it('expands messages recalled from agent memory', async () => {
+      const layer = createLayer();
+      const original = message(EncodingType.JSON, content);
+      await layer.sendMessage(original);
+
+      // Once the cached copy expires, recall falls back to the receiver's memory
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 3600000);
+      try {
+        expect(await layer.recallMessage('msg_1', 'agent2', { expand: true })).toEqual(original);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+
+    it('rejects compact messages with unknown enums or encodings', async () => {
+      const layer = createLayer();
+      const compact = { i: 'msg_1', t: 0, s: 'agent1', r: 'agent2', c: 'x', mt: MessageType.INSTRUCTION, p: Priority.LOW, cp: false, e: EncodingType.JSON };
+
+      await expect(layer.expandMessage({ ...compact, mt: 99 })).rejects.toThrow('Invalid compact message: msg_1');
+      await expect(layer.expandMessage({ ...compact, p: 7 })).rejects.toThrow('Invalid compact message: msg_1');
+      await expect(layer.expandMessage({ ...compact, e: 99 })).rejects.toThrow('Invalid compact message: msg_1');
+    });
+  });
+
+  describe('compression modes', () => {
+    const content = { response: 'Done  Now', result: { userName: 'Ada', message: 'All OK' } };
+
+    /**
+     * A layer with two registered agents
+     */
+    const createLayer = () => {
+      const layer = new AIProcessingLayer();
+      for (const id of ['agent1', 'agent2']) {
+        layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      }
+      return layer;
+    };
+
+    /**
+     * Send content in a compression mode and expand it on the receiving side
+     */
+    const roundTrip = async (compressionMode: CompressionMode, encoding: EncodingType = EncodingType.COMPRESSED_JSON) => {
+      const layer = createLayer();
+      await layer.sendMessage(message(encoding, content, { compressionMode }));
+      return layer.recallMessage('msg_1', 'agent2', { expand: true });
+    };
+
+    it('restores content exactly in lossless mode', async () => {
+      for (const encoding of [EncodingType.JSON, EncodingType.COMPRESSED_JSON, EncodingType.BINARY]) {
+        const expanded = await roundTrip(CompressionMode.LOSSLESS, encoding);
+        expect(expanded.content).toEqual(content);
+        expect(expanded.compressionMode).toBe(CompressionMode.LOSSLESS);
+      }
+    });
+
+    it('may alter content in lossy mode', async () => {
+      const expanded = await roundTrip(CompressionMode.LOSSY);
+      expect(expanded.compressionMode).toBe(CompressionMode.LOSSY);
+      expect(expanded.content).not.toEqual(content);
+    });
+
+    it('abbreviates keys in both modes but normalises text only in lossy mode', async () => {
+      const layer = createLayer();
+      await layer.sendMessage(message(EncodingType.JSON, content, { compressionMode: CompressionMode.LOSSY }));
+      await layer.sendMessage(message(EncodingType.JSON, content, { id: 'msg_2', compressionMode: CompressionMode.LOSSLESS }));
+
+      expect((await layer.recallMessage('msg_1', 'agent2')).c).toEqual({ res: 'done now', rslt: { user_n: 'ada', msg: 'all ok' } });
+      expect((await layer.recallMessage('msg_2', 'agent2')).c).toEqual({ res: 'Done  Now', rslt: { userName: 'Ada', msg: 'All OK' } });
+    });
+  });
+
+  describe('custom codecs', () => {
+    const layer = new AIProcessingLayer();
+    for (const id of ['agent1', 'agent2']) {
+      layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+    }
+    layer.registerCodec({
+      id: 'csv',
+      encode: (rows: number[][]) => rows.map(row => row.join(',')).join('\n'),
+      decode: (text: string) => text.split('\n').map(line => line.split(',').map(Number)),
+      estimateSize: (rows: number[][]) => rows.flat().join(',').length
+    });
+
+    it('dispatches by codec id on send and recall', async () => {
+      const original = message('csv', [[1, 2], [3, 4]]);
+      await layer.sendMessage(original);
+
+      expect((await layer.recallMessage('msg_1', 'agent2')).c).toBe('1,2\n3,4');
+      expect(await layer.recallMessage('msg_1', 'agent2', { expand: true })).toEqual(original);
+    });
+
+    it('refuses messages with an unknown encoding', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(await layer.sendMessage(message('cbor', {}, { id: 'msg_2' }))).toBe(false);
+      expect(error.mock.calls[0][1]).toEqual(new Error('Unknown encoding: cbor'));
+      error.mockRestore();
+    });
+  });
+
+  describe('token accounting', () => {
+    it('reports token savings per message and in total', async () => {
+      const layer = new AIProcessingLayer();
+      for (const id of ['agent1', 'agent2']) {
+        layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      }
+      const content = { message: 'The configuration parameter of the processing algorithm' };
+
+      await layer.sendMessage(message(EncodingType.JSON, content, { compressionMode: CompressionMode.LOSSY }));
+      const tokens = layer.getMessageTokenStats('msg_1', 'agent2')!;
+
+      const compact = await layer.recallMessage('msg_1', 'agent2');
+
+      expect(tokens.original).toBe(layer.countTokens(content));
+      expect(tokens.encoded).toBe(layer.countTokens(compact.c));
+      expect(tokens.saved).toBe(tokens.original - tokens.encoded);
+      expect(layer.getStats().tokens).toEqual({ messages: 1, ...tokens });
+    });
+  });
+
+  describe('abbreviation mining', () => {
+    it('mines abbreviations from delivered messages', async () => {
+      const layer = new AIProcessingLayer();
+      for (const id of ['agent1', 'agent2']) {
+        layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      }
+
+      expect(() => layer.proposeAbbreviations()).toThrow('Abbreviation mining is not enabled');
+
+      layer.mineAbbreviations();
+      for (let i = 0; i < 5; i++) {
+        await layer.sendMessage(message(EncodingType.JSON, { observation: 'anomalous readings detected' }, { id: `msg_${i}` }));
+      }
+
+      const dictionary = layer.proposeAbbreviations({ name: 'traffic' });
+      expect(dictionary.entries.map(entry => entry.full)).toEqual(expect.arrayContaining(['observation', 'anomalous readings']));
+
+      layer.loadAbbreviations(dictionary);
+      expect(() => layer.loadAbbreviations({ ...dictionary, formatVersion: 9 })).toThrow('format version: 9');
+    });
+  });
+
+  describe('abbreviation dictionaries', () => {
+    const sensors: AbbreviationDictionary = {
+      format: 'abbreviations',
+      formatVersion: 1,
+      id: 'sensors@1',
+      hash: dictionaryHash([{ full: 'temperature', abbrev: 'tmp' }]),
+      name: 'sensors',
+      version: 1,
+      tokenizer: 'ai-processing-layer-bpe-v1',
+      entries: [{ full: 'temperature', abbrev: 'tmp', kind: 'word' }]
+    };
+
+    /**
+     * Layer with agents reading the given dictionaries
+     */
+    const setup = (senderDictionaries?: string[], receiverDictionaries?: string[]) => {
+      const layer = new AIProcessingLayer();
+      layer.registerDictionary(sensors);
+      layer.registerAgent({ id: 'agent1', name: 'a', capabilities: [], memoryContext: new Map(), lastActive: 0, dictionaries: senderDictionaries });
+      layer.registerAgent({ id: 'agent2', name: 'b', capabilities: [], memoryContext: new Map(), lastActive: 0, dictionaries: receiverDictionaries });
+      return layer;
+    };
+    const lossy = message(EncodingType.JSON, 'temperature data', { compressionMode: CompressionMode.LOSSY });
+
+    it('abbreviates with the dictionary negotiated for the agent pair', async () => {
+      const layer = setup(['sensors@1', 'default'], ['default', 'sensors@1']);
+
+      expect(layer.negotiateDictionary('agent1', 'agent2')).toBe('sensors@1');
+      expect(await layer.sendMessage(lossy)).toBe(true);
+
+      const compact = await layer.recallMessage('msg_1', 'agent2');
+      expect(compact).toMatchObject({ c: 'tmp data', d: 'sensors@1', dh: sensors.hash });
+      expect(await layer.receive('agent2')).toEqual([{ ...lossy, dictionary: 'sensors@1' }]);
+    });
+
+    it('falls back to unabbreviated content when the receiver lacks the dictionary', async () => {
+      const layer = setup(['sensors@1'], ['default']);
+
+      expect(layer.negotiateDictionary('agent1', 'agent2')).toBeUndefined();
+      expect(await layer.sendMessage(message(EncodingType.AUTO, 'temperature data', { compressionMode: CompressionMode.LOSSY }))).toBe(true);
+
+      const compact = await layer.recallMessage('msg_1', 'agent2');
+      expect(compact.c).toBe('temperature data');
+      expect(compact.cm).toBeUndefined();
+      expect(compact.e).not.toBe('token-optimizer');
+    });
+
+    it('refuses to send without a shared dictionary under the refuse policy', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const layer = setup(['sensors@1'], ['default']);
+      layer.setDictionaryPolicy('refuse');
+
+      expect(await layer.sendMessage(lossy)).toBe(false);
+      expect(error.mock.calls[0][1]).toEqual(new Error('No abbreviation dictionary shared by agent1 and agent2'));
+      error.mockRestore();
+    });
+
+    it('detects a receiver whose dictionary differs from the sender\'s', async () => {
+      const sender = new AIProcessingLayer();
+      const receiver = new AIProcessingLayer();
+      sender.loadAbbreviations(sensors);
+
+      const packet = await sender.serializeMessage(lossy);
+
+      await expect(receiver.deserializeMessage(packet)).rejects.toThrow('Abbreviation dictionary default differs from the sender\'s');
+      receiver.loadAbbreviations(sensors);
+      await expect(receiver.deserializeMessage(packet)).resolves.toEqual(lossy);
+    });
+
+    it('keeps registered dictionaries immutable', () => {
+      const layer = setup();
+
+      expect(() => layer.registerDictionary({ ...sensors, entries: [], hash: dictionaryHash([]) }))
+        .toThrow('Abbreviation dictionary sensors@1 is already registered with different entries');
+    });
+
+    it('registers a dictionary exported from the built-in abbreviations', () => {
+      const builtin = new TokenOptimizer().exportDictionary('builtin', 1);
+
+      expect(setup().registerDictionary(builtin)).toBe('builtin@1');
+    });
+  });
+
+  describe('context budgeting', () => {
+    it('packs an agent\'s memory into a token budget', async () => {
+      const layer = new AIProcessingLayer();
+      layer.registerAgent({ id: 'agent1', name: 'a', capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      const memory = new Map<string, any>([['goal', 'Keep the cluster healthy']]);
+      layer.registerAgent({ id: 'agent2', name: 'b', capabilities: [], memoryContext: memory, lastActive: 0 });
+
+      await layer.sendMessage(message(EncodingType.BINARY, { alert: 'disk usage above ninety percent on node seven' }, { id: 'm1', timestamp: 1000, priority: Priority.LOW }));
+      await layer.sendMessage(message(EncodingType.COMPRESSED_JSON, 'node seven was drained and rebooted', { id: 'm2', timestamp: 2000, priority: Priority.CRITICAL }));
+      memory.set('msg_corrupt', { content: 1, encoding: 'unknown' });
+
+      const full = await layer.buildContext('agent2', { maxTokens: 1000 });
+      expect(full.text).toBe([
+        'goal: Keep the cluster healthy',
+        '[1970-01-01T00:00:01.000Z] agent1: {"alert":"disk usage above ninety percent on node seven"}',
+        '[1970-01-01T00:00:02.000Z] agent1: node seven was drained and rebooted'
+      ].join('\n'));
+      expect(full.report.dropped).toEqual(['msg_corrupt']);
+
+      const [goal, , last] = full.items;
+      const budget = goal.tokens + last.tokens + 1;
+      const packed = await layer.buildContext('agent2', { maxTokens: budget });
+      expect(packed.tokens).toBeLessThanOrEqual(budget);
+      expect(packed.items.map(item => item.key)).toEqual(['goal', 'msg_m2']);
+      expect(packed.report.dropped).toEqual(['msg_m1', 'msg_corrupt']);
+
+      const important = await layer.buildContext('agent2', { maxTokens: budget, importance: key => key === 'msg_m1' ? 10 : undefined });
+      expect(important.items.map(item => item.key)).toContain('msg_m1');
+
+      await expect(layer.buildContext('nobody', { maxTokens: 10 })).rejects.toThrow('Agent not registered');
+    });
+  });
+
+  describe('persistent cache', () => {
+    it('recalls messages cached before a restart', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'layer-'));
+      const storage = () => ({ storage: new SQLiteStorageAdapter(path.join(directory, 'cache.sqlite')), writeMode: 'write-behind' as const });
+
+      try {
+        const before = new AIProcessingLayer({ cache: storage() });
+        for (const id of ['agent1', 'agent2']) {
+          before.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+        }
+        const original = message(EncodingType.BINARY, { reading: 21.5, unit: 'C' });
+        await before.sendMessage(original);
+        await before.close();
+
+        const after = new AIProcessingLayer({ cache: storage() });
+        expect(await after.recallMessage('msg_1', 'agent2', { expand: true })).toEqual(original);
+        await after.close();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('automatic encoding', () => {
+    /**
+     * A layer with two registered agents
+     */
+    const createLayer = () => {
+      const layer = new AIProcessingLayer();
+      for (const id of ['agent1', 'agent2']) {
+        layer.registerAgent({ id, name: id, capabilities: [], memoryContext: new Map(), lastActive: 0 });
+      }
+      return layer;
+    };
+
+    it('picks the smallest encoding and records the savings', async () => {
+      const layer = createLayer();
+      const records = Array.from({ length: 50 }, (_, index) => ({ identifier: index, status: 'processing', score: 0.5 }));
+      const original = message(EncodingType.AUTO, records);
+
+      await layer.sendMessage(original);
+      const compact = await layer.recallMessage('msg_1', 'agent2');
+      const stats = layer.getStats().autoEncoding;
+
+      expect(compact.e).toBe('a114-deflate');
+      expect(await layer.expandMessage(compact)).toEqual({ ...original, encoding: 'a114-deflate' });
+      expect(stats.selections).toEqual({ 'a114-deflate': 1 });
+      expect(stats.bytesSaved).toBeGreaterThan(stats.encodedBytes);
+    });
+
+    it('skips codecs that are slower than the latency budget', async () => {
+      const layer = createLayer();
+      layer.registerCodec({
+        id: 'slow',
+        encode: () => {
+          const until = Date.now() + 20;
+          while (Date.now() < until);
+          return 's';
+        },
+        decode: () => 'content',
+        estimateSize: () => 1
+      });
+      layer.setAutoEncodingCandidates(['json', 'slow']);
+
+      await layer.sendMessage(message(EncodingType.AUTO, 'content'));
+      await layer.sendMessage(message(EncodingType.AUTO, 'content', { id: 'msg_2', latencyBudget: 5 }));
+
+      expect((await layer.recallMessage('msg_1', 'agent2')).e).toBe('slow');
+      expect((await layer.recallMessage('msg_2', 'agent2')).e).toBe('json');
+    });
+
+    it('skips candidates that cannot size bigint content', async () => {
+      const layer = createLayer();
+      const original = message(EncodingType.AUTO, { total: 12345678901234567890n });
+
+      expect(await layer.sendMessage(original)).toBe(true);
+      const compact = await layer.recallMessage('msg_1', 'agent2');
+
+      expect(['json', 'token-optimizer', 'compressed-json']).not.toContain(compact.e);
+      expect((await layer.expandMessage(compact)).content).toEqual({ total: 12345678901234567890n });
+    });
+
+    it('skips candidates that lose Map content', async () => {
+      const layer = createLayer();
+      const content = new Map([['alpha', 1], ['beta', 2]]);
+
+      await layer.sendMessage(message(EncodingType.AUTO, content));
+      const compact = await layer.recallMessage('msg_1', 'agent2');
+
+      expect(compact.e).not.toBe('json');
+      expect((await layer.expandMessage(compact)).content).toEqual(content);
+    });
+  });
+
+  describe('message serialization', () => {
+    const sender = new AIProcessingLayer();
+    const receiver = new AIProcessingLayer();
+
+    it('round trips an A114 message through a single buffer', async () => {
+      const original = message(EncodingType.A114, { values: new Float32Array([0.5, 1]), at: new Date(0) });
+      const packet = await sender.serializeMessage(original);
+
+      expect(Buffer.isBuffer(packet)).toBe(true);
+      expect(await receiver.deserializeMessage(packet)).toEqual(original);
+    });
+
+    it('round trips through base64 for JSON transports', async () => {
+      const original = message(EncodingType.JSON, { text: 'Keep  This Exactly' }, { compressionMode: CompressionMode.LOSSLESS });
+      const encoded = await sender.serializeMessage(original, { format: 'base64', checksum: true });
+
+      expect(typeof encoded).toBe('string');
+      expect(JSON.parse(JSON.stringify({ packet: encoded })).packet).toBe(encoded);
+      expect(await receiver.deserializeMessage(encoded)).toEqual(original);
+    });
+
+    it('does not repeat the envelope field names', async () => {
+      const packet = await sender.serializeMessage(message(EncodingType.A114, 'hi'));
+
+      expect(packet.length).toBeLessThan(80);
+    });
+
+    it('rejects packets that are not serialized messages', async () => {
+      await expect(receiver.deserializeMessage(Buffer.from('a11403000000000100', 'hex'))).rejects.toThrow('Invalid serialized message');
+    });
+  });
+});
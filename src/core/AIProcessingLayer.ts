@@ -4,14 +4,64 @@ import {
   MessageType, 
   Priority, 
   EncodingType, 
+  CompressionMode,
   OptimizationContext,
   ProcessingStep,
   StepStatus,
-  AIAgent
+  AIAgent,
+  MessageHandler,
+  RecallOptions,
+  A114CommandSessionOptions,
+  A114DecodeOptions,
+  A114SchemaField,
+  MessageSerializeOptions,
+  Codec,
+  TokenStats,
+  AbbreviationDictionary,
+  AbbreviationMiningOptions,
+  DictionaryPolicy,
+  BuiltContext,
+  ContextBudgetOptions,
+  ContextCandidate,
+  AIProcessingLayerOptions
 } from '../types';
+import { isDeepStrictEqual } from 'util';
 import { CacheManager } from '../cache/CacheManager';
 import { A114Protocol } from '../protocols/A114Protocol';
+import { A114CommandSession } from '../protocols/A114CommandSession';
 import { TokenOptimizer } from '../utils/TokenOptimizer';
+import { AbbreviationMiner } from '../utils/AbbreviationMiner';
+import { ContextBuilder } from '../utils/ContextBuilder';
+import { CodecRegistry } from '../codecs/CodecRegistry';
+import { JsonCodec } from '../codecs/JsonCodec';
+import { CompressedJsonCodec } from '../codecs/CompressedJsonCodec';
+import { MessagePackCodec } from '../codecs/MessagePackCodec';
+import { A114Codec } from '../codecs/A114Codec';
+import { TokenOptimizerCodec } from '../codecs/TokenOptimizerCodec';
+
+// A114 schema of a serialized CompactMessage envelope
+const MESSAGE_SCHEMA_ID = 1;
+const MESSAGE_SCHEMA_FIELDS: A114SchemaField[] = [
+  { name: 'i', type: 'string' },
+  { name: 't', type: 'number' },
+  { name: 's', type: 'string' },
+  { name: 'r', type: 'string' },
+  { name: 'c' },
+  { name: 'mt', type: 'number' },
+  { name: 'p', type: 'number' },
+  { name: 'cp', type: 'boolean' },
+  { name: 'e' },
+  { name: 'cm', type: 'number', optional: true },
+  { name: 'z', type: 'string', optional: true },
+  { name: 'd', type: 'string', optional: true },
+  { name: 'dh', type: 'string', optional: true }
+];
+
+// Dictionary of the layer's own TokenOptimizer, read by agents that declare none
+const DEFAULT_DICTIONARY = 'default';
+
+// Memory entries received through SYNC live under this prefix, apart from the layer's own keys
+const PEER_MEMORY_PREFIX = 'peer_';
 
 /**
  * Core AI Processing Layer
@@ -22,12 +72,50 @@ export class AIProcessingLayer {
   private cache: CacheManager;
   private a114Protocol: A114Protocol;
   private tokenOptimizer: TokenOptimizer;
+  private codecs: CodecRegistry;
   private processingSteps: ProcessingStep[] = [];
-
-  constructor() {
-    this.cache = new CacheManager();
+  private inboxes: Map<string, Map<string, CompactMessage>> = new Map();
+  private subscribers: Map<string, Set<MessageHandler>> = new Map();
+  private waiters: Map<string, Set<() => void>> = new Map();
+  private autoCandidates: string[] = ['json', 'token-optimizer', 'a114', 'a114-deflate'];
+  private autoSelections: Map<string, number> = new Map();
+  private autoBytes = { baseline: 0, encoded: 0 };
+  private codecLatency: Map<string, { total: number, count: number }> = new Map();
+  private messageTokens: WeakMap<CompactMessage, TokenStats> = new WeakMap();
+  private abbreviationMiner?: AbbreviationMiner;
+  private dictionaries: Map<string, TokenOptimizer> = new Map();
+  private pairDictionaries: Map<string, string | null> = new Map();
+  private dictionaryPolicy: DictionaryPolicy = 'fallback';
+  private tokenTotals = { messages: 0, original: 0, encoded: 0 };
+
+  constructor(options: AIProcessingLayerOptions = {}) {
+    this.cache = new CacheManager(undefined, undefined, options.cache);
     this.a114Protocol = new A114Protocol();
+    this.a114Protocol.registerSchema(MESSAGE_SCHEMA_ID, MESSAGE_SCHEMA_FIELDS);
     this.tokenOptimizer = new TokenOptimizer();
+    this.dictionaries.set(DEFAULT_DICTIONARY, this.tokenOptimizer);
+    this.codecs = new CodecRegistry();
+    this.codecs.register(new JsonCodec());
+    this.codecs.register(new CompressedJsonCodec());
+    this.codecs.register(new MessagePackCodec());
+    this.codecs.register(new A114Codec(this.a114Protocol));
+    this.codecs.register(new A114Codec(this.a114Protocol, { compression: 'deflate' }, 'a114-deflate'));
+    this.codecs.register(new TokenOptimizerCodec(this.tokenOptimizer, id => this.getDictionary(id)));
+  }
+
+  /**
+   * Register a content codec. Messages select it by setting `encoding` to its id.
+   */
+  registerCodec(codec: Codec): void {
+    this.codecs.register(codec);
+  }
+
+  /**
+   * Set the codecs EncodingType.AUTO chooses from, in order of preference on equal size
+   */
+  setAutoEncodingCandidates(codecIds: string[]): void {
+    codecIds.forEach(id => this.codecs.get(id));
+    this.autoCandidates = [...codecIds];
   }
 
   /**
@@ -35,6 +123,7 @@ export class AIProcessingLayer {
    */
   registerAgent(agent: AIAgent): void {
     this.agents.set(agent.id, agent);
+    this.pairDictionaries.clear();
   }
 
   /**
@@ -55,6 +144,7 @@ export class AIProcessingLayer {
 
       // Step 2: Actie = Plan
       const optimizedMessage = await this.optimizeMessage(message);
+      const tokens = this.measureTokens(message, optimizedMessage);
       
       // Step 3: Reactie = Uitvoering
       context.reaction = await this.routeMessage(optimizedMessage);
@@ -83,7 +173,15 @@ export class AIProcessingLayer {
       this.updateAgentMemory(message.senderId, context.learning);
 
       // Step 10 & 11: Final outcome
-      context.finalOutcome = { success: context.validation, messageId: message.id };
+      context.finalOutcome = { success: context.validation, messageId: message.id, tokens };
+
+      if (context.validation) {
+        this.tokenTotals.messages++;
+        this.tokenTotals.original += tokens.original;
+        this.tokenTotals.encoded += tokens.encoded;
+        this.abbreviationMiner?.observe(message.content);
+        this.notifyReceiver(message.receiverId, optimizedMessage);
+      }
 
       return context.validation || false;
     } catch (error) {
@@ -109,17 +207,265 @@ export class AIProcessingLayer {
       e: message.encoding
     };
 
-    // Apply token optimization
-    if (message.encoding === EncodingType.A114) {
-      compact.c = await this.a114Protocol.encode(message.content);
+    const isAuto = message.encoding === EncodingType.AUTO;
+    const codec = isAuto ? undefined : this.codecs.get(message.encoding);
+
+    // Content the sender already compressed is passed through untouched
+    if (message.compressed) {
+      if (isAuto) {
+        compact.e = 'json';
+      }
+      return compact;
+    }
+
+    // Abbreviations need a dictionary the receiver reads too
+    const abbreviates = message.compressionMode !== undefined || codec?.id === 'token-optimizer';
+    const dictionary = abbreviates || isAuto ? this.selectDictionary(message, abbreviates) : undefined;
+    const target: AIMessage = dictionary === undefined ? message : { ...message, dictionary };
+
+    // Token optimization is opt-in and runs before the encoding
+    let content = message.content;
+    if (message.compressionMode !== undefined && dictionary !== undefined) {
+      content = this.getDictionary(dictionary).compress(content, message.compressionMode);
+      compact.cm = message.compressionMode;
+    }
+    if (message.compression !== undefined) {
+      compact.z = message.compression;
+    }
+
+    if (codec?.id === 'token-optimizer' && dictionary === undefined) {
+      compact.e = 'json';
+      compact.c = await this.codecs.get('json').encode(content, target);
+    } else if (codec) {
+      compact.c = await codec.encode(content, target);
     } else {
-      compact.c = this.tokenOptimizer.compress(message.content);
+      const choice = await this.chooseEncoding(content, target);
+      compact.e = choice.id;
+      compact.c = choice.encoded;
     }
 
-    compact.cp = true;
+    // Receivers assume the default dictionary when `d` is absent
+    if (dictionary !== undefined && (compact.cm !== undefined || compact.e === 'token-optimizer')) {
+      if (dictionary !== DEFAULT_DICTIONARY) {
+        compact.d = dictionary;
+      }
+      compact.dh = this.getDictionary(dictionary).getDictionaryHash();
+    }
     return compact;
   }
 
+  /**
+   * Dictionary to abbreviate a message with: the one it names, or the one
+   * negotiated for its agent pair. Without a shared dictionary, messages that
+   * require abbreviations are refused under the 'refuse' policy.
+   */
+  private selectDictionary(message: AIMessage, required: boolean): string | undefined {
+    let dictionary: string | undefined;
+    if (message.dictionary !== undefined) {
+      dictionary = this.readableDictionaries(message.receiverId).includes(message.dictionary) &&
+        this.dictionaries.has(message.dictionary) ? message.dictionary : undefined;
+    } else {
+      dictionary = this.negotiateDictionary(message.senderId, message.receiverId);
+    }
+
+    if (dictionary === undefined && required && this.dictionaryPolicy === 'refuse') {
+      throw new Error(`No abbreviation dictionary shared by ${message.senderId} and ${message.receiverId}`);
+    }
+    return dictionary;
+  }
+
+  /**
+   * Encode with every AUTO candidate and keep the smallest result. With a latency
+   * budget, codecs whose average encode time exceeds it are not tried. Candidates
+   * whose output cannot be sized, or does not decode back to the content, are skipped.
+   */
+  private async chooseEncoding(content: any, message: AIMessage): Promise<{ id: string, encoded: any }> {
+    let best: { id: string, encoded: any, size: number } | undefined;
+    let baseline: number | undefined;
+
+    for (const id of this.autoCandidates) {
+      if (id === 'token-optimizer' && message.dictionary === undefined) {
+        continue;
+      }
+
+      const latency = this.codecLatency.get(id);
+      if (message.latencyBudget !== undefined && latency && latency.total / latency.count > message.latencyBudget) {
+        continue;
+      }
+
+      const codec = this.codecs.get(id);
+      let encoded: any;
+      let size: number;
+      const start = process.hrtime.bigint();
+      try {
+        encoded = await codec.encode(content, message);
+        this.recordLatency(id, Number(process.hrtime.bigint() - start) / 1e6);
+        size = this.encodedSize(encoded);
+        if (!(await this.roundTrips(codec, encoded, content, message))) {
+          continue;
+        }
+      } catch {
+        continue; // Content this codec cannot represent
+      }
+
+      if (id === 'json') {
+        baseline = size;
+      }
+      if (!best || size < best.size) {
+        best = { id, encoded, size };
+      }
+    }
+
+    if (!best) {
+      throw new Error('No AUTO encoding candidate could encode the message');
+    }
+
+    this.autoSelections.set(best.id, (this.autoSelections.get(best.id) ?? 0) + 1);
+    if (baseline !== undefined) {
+      this.autoBytes.baseline += baseline;
+      this.autoBytes.encoded += best.size;
+    }
+    return best;
+  }
+
+  /**
+   * Bytes an encoded value takes on the wire
+   */
+  private encodedSize(encoded: any): number {
+    if (Buffer.isBuffer(encoded)) {
+      return encoded.length;
+    }
+    return Buffer.byteLength(typeof encoded === 'string' ? encoded : JSON.stringify(encoded ?? null), 'utf8');
+  }
+
+  /**
+   * Whether encoded content decodes back to the original after going through
+   * its wire form (JSON unless it is a Buffer)
+   */
+  private async roundTrips(codec: Codec, encoded: any, content: any, message: AIMessage): Promise<boolean> {
+    const wire = Buffer.isBuffer(encoded) ? encoded : JSON.parse(JSON.stringify(encoded ?? null));
+    const compact = { e: codec.id, d: message.dictionary, z: message.compression } as CompactMessage;
+    return isDeepStrictEqual(await codec.decode(wire, compact), content ?? null);
+  }
+
+  /**
+   * Track the running average encode time of a codec
+   */
+  private recordLatency(codecId: string, milliseconds: number): void {
+    const latency = this.codecLatency.get(codecId) ?? { total: 0, count: 0 };
+    latency.total += milliseconds;
+    latency.count++;
+    this.codecLatency.set(codecId, latency);
+  }
+
+  /**
+   * Count the tokens of a message's content before and after optimization
+   */
+  private measureTokens(message: AIMessage, compact: CompactMessage): TokenStats {
+    const original = this.tokenOptimizer.countTokens(message.content);
+    const encoded = this.tokenOptimizer.countTokens(compact.c);
+    const tokens = { original, encoded, saved: original - encoded };
+
+    this.messageTokens.set(compact, tokens);
+    return tokens;
+  }
+
+  /**
+   * Count the tokens of a value with the layer's tokenizer
+   */
+  countTokens(value: any): number {
+    return this.tokenOptimizer.countTokens(value);
+  }
+
+  /**
+   * Token savings of a message still in the agent's memory
+   */
+  getMessageTokenStats(messageId: string, agentId: string): TokenStats | undefined {
+    return this.agents.get(agentId)?.memoryContext.get(`msg_${messageId}`)?.tokens;
+  }
+
+  /**
+   * Register an abbreviation dictionary agents can negotiate, returns its id
+   */
+  registerDictionary(dictionary: AbbreviationDictionary): string {
+    const optimizer = TokenOptimizer.fromDictionary(dictionary);
+    const existing = this.dictionaries.get(dictionary.id);
+    if (existing && existing.getDictionaryHash() !== optimizer.getDictionaryHash()) {
+      throw new Error(`Abbreviation dictionary ${dictionary.id} is already registered with different entries`);
+    }
+
+    this.dictionaries.set(dictionary.id, optimizer);
+    this.pairDictionaries.clear();
+    return dictionary.id;
+  }
+
+  /**
+   * Set what happens when two agents share no abbreviation dictionary
+   */
+  setDictionaryPolicy(policy: DictionaryPolicy): void {
+    this.dictionaryPolicy = policy;
+  }
+
+  /**
+   * The sender's most preferred registered dictionary that the receiver also reads
+   */
+  negotiateDictionary(senderId: string, receiverId: string): string | undefined {
+    const pair = `${senderId}\u0000${receiverId}`;
+    if (!this.pairDictionaries.has(pair)) {
+      const readable = this.readableDictionaries(receiverId);
+      const shared = this.readableDictionaries(senderId)
+        .find(id => readable.includes(id) && this.dictionaries.has(id));
+      this.pairDictionaries.set(pair, shared ?? null);
+    }
+    return this.pairDictionaries.get(pair) ?? undefined;
+  }
+
+  /**
+   * Dictionaries an agent declares it can read
+   */
+  private readableDictionaries(agentId: string): string[] {
+    return this.agents.get(agentId)?.dictionaries ?? [DEFAULT_DICTIONARY];
+  }
+
+  /**
+   * Optimizer of a registered dictionary
+   */
+  private getDictionary(dictionaryId: string): TokenOptimizer {
+    const optimizer = this.dictionaries.get(dictionaryId);
+    if (!optimizer) {
+      throw new Error(`Unknown abbreviation dictionary: ${dictionaryId}`);
+    }
+    return optimizer;
+  }
+
+  /**
+   * Start or stop mining abbreviations from the content of delivered messages
+   */
+  mineAbbreviations(enabled: boolean = true): void {
+    this.abbreviationMiner = enabled ? this.tokenOptimizer.createMiner() : undefined;
+  }
+
+  /**
+   * Dictionary of the abbreviations mined so far
+   */
+  proposeAbbreviations(options: AbbreviationMiningOptions = {}): AbbreviationDictionary {
+    if (!this.abbreviationMiner) {
+      throw new Error('Abbreviation mining is not enabled');
+    }
+    return this.abbreviationMiner.toDictionary(options);
+  }
+
+  /**
+   * Load an abbreviation dictionary. Every peer exchanging optimized messages
+   * must load the same dictionaries.
+   */
+  loadAbbreviations(dictionary: AbbreviationDictionary): void {
+    this.tokenOptimizer.importDictionary(dictionary);
+    if (this.abbreviationMiner) {
+      this.abbreviationMiner = this.tokenOptimizer.createMiner();
+    }
+  }
+
   /**
    * Route message to target agent
    */
@@ -137,17 +483,63 @@ export class AIProcessingLayer {
       message.p
     );
 
+    // Queue the message in the receiver's inbox until it is acknowledged
+    this.getInbox(message.r).set(message.i, message);
+
     // Update receiver's memory context
     receiver.memoryContext.set(`msg_${message.i}`, {
       content: message.c,
       sender: message.s,
-      timestamp: message.t
+      timestamp: message.t,
+      type: message.mt,
+      priority: message.p,
+      encoding: message.e,
+      compressionMode: message.cm,
+      compressed: message.cp,
+      compression: message.z,
+      dictionary: message.d,
+      dictionaryHash: message.dh,
+      tokens: this.messageTokens.get(message)
     });
 
     receiver.lastActive = Date.now();
     return { status: 'routed', messageId: message.i };
   }
 
+  /**
+   * Get (or lazily create) the inbox of an agent
+   */
+  private getInbox(agentId: string): Map<string, CompactMessage> {
+    let inbox = this.inboxes.get(agentId);
+    if (!inbox) {
+      inbox = new Map();
+      this.inboxes.set(agentId, inbox);
+    }
+    return inbox;
+  }
+
+  /**
+   * Hand a delivered message to the receiver's subscribers and pending iterators
+   */
+  private notifyReceiver(agentId: string, message: CompactMessage): void {
+    const waiters = this.waiters.get(agentId);
+    if (waiters) {
+      this.waiters.delete(agentId);
+      waiters.forEach(wake => wake());
+    }
+
+    const handlers = this.subscribers.get(agentId);
+    if (!handlers || handlers.size === 0) {
+      return;
+    }
+
+    this.expandMessage(message)
+      .then(expanded => Promise.all(
+        Array.from(handlers).map(async handler => handler(expanded))
+      ))
+      .catch(error => console.error('Message handler failed:', error));
+  }
+
   /**
    * Evaluate different routing outcomes
    */
@@ -223,24 +615,274 @@ export class AIProcessingLayer {
   }
 
   /**
-   * Retrieve message from cache or agent memory
+   * Retrieve message from cache or agent memory.
+   * With `expand` the message is returned as a decoded AIMessage instead of its compact form.
    */
-  async recallMessage(messageId: string, agentId: string): Promise<any> {
+  async recallMessage(messageId: string, agentId: string, options: RecallOptions = {}): Promise<any> {
     // Try cache first
     const cached = await this.cache.get(`msg_${messageId}`);
     if (cached) {
-      return cached;
+      return options.expand ? this.expandMessage(cached) : cached;
     }
 
     // Try agent memory
     const agent = this.agents.get(agentId);
     if (agent?.memoryContext.has(`msg_${messageId}`)) {
-      return agent.memoryContext.get(`msg_${messageId}`);
+      const remembered = agent.memoryContext.get(`msg_${messageId}`);
+      return options.expand ? this.expandMessage(this.rememberedMessage(messageId, agentId, remembered)) : remembered;
     }
 
     return null;
   }
 
+  /**
+   * Compact form of a message kept in an agent's memory
+   */
+  private rememberedMessage(messageId: string, agentId: string, remembered: any): CompactMessage {
+    return {
+      i: messageId,
+      t: remembered.timestamp,
+      s: remembered.sender,
+      r: agentId,
+      c: remembered.content,
+      mt: remembered.type ?? MessageType.DATA_TRANSFER,
+      p: remembered.priority ?? Priority.NORMAL,
+      cp: remembered.compressed ?? false,
+      e: remembered.encoding ?? EncodingType.JSON,
+      cm: remembered.compressionMode,
+      z: remembered.compression,
+      d: remembered.dictionary,
+      dh: remembered.dictionaryHash
+    };
+  }
+
+  /**
+   * Pack an agent's memory (messages, learnings and other entries) into a token
+   * budget for an LLM context window. Entries are ranked by priority, importance
+   * and recency; the least valuable are abbreviated, summarized or dropped first.
+   */
+  async buildContext(agentId: string, options: ContextBudgetOptions): Promise<BuiltContext> {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new Error('Agent not registered');
+    }
+
+    const candidates: ContextCandidate[] = [];
+    const undecodable: string[] = [];
+
+    for (const [key, value] of agent.memoryContext) {
+      let candidate: ContextCandidate;
+      if (key.startsWith('msg_')) {
+        let message: AIMessage;
+        try {
+          message = await this.expandMessage(this.rememberedMessage(key.slice('msg_'.length), agentId, value));
+        } catch {
+          undecodable.push(key);
+          continue;
+        }
+        candidate = {
+          key,
+          kind: 'message',
+          label: `[${new Date(message.timestamp).toISOString()}] ${message.senderId}`,
+          body: this.contextText(message.content),
+          priority: message.priority,
+          timestamp: message.timestamp,
+          importance: 0.5
+        };
+      } else if (key.startsWith('learning_')) {
+        const timestamp = Number(key.slice('learning_'.length)) || 0;
+        candidate = {
+          key,
+          kind: 'learning',
+          label: `[${new Date(timestamp).toISOString()}] learning`,
+          body: this.contextText(value),
+          priority: Priority.LOW,
+          timestamp,
+          importance: 0
+        };
+      } else {
+        candidate = { key, kind: 'memory', label: key, body: this.contextText(value), priority: Priority.NORMAL, timestamp: 0, importance: 1 };
+      }
+
+      candidate.importance = options.importance?.(key, value) ?? candidate.importance;
+      candidates.push(candidate);
+    }
+
+    const context = new ContextBuilder(this.tokenOptimizer).build(candidates, options);
+    context.report.dropped.push(...undecodable);
+    return context;
+  }
+
+  /**
+   * A memory value as context text
+   */
+  private contextText(value: any): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (Buffer.isBuffer(value)) {
+      return `<${value.length} bytes>`;
+    }
+    return JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item) ?? String(value);
+  }
+
+  /**
+   * Convert a compact message back into a full AI message.
+   * Restores the original field names and enums and decodes the content according to `e`.
+   */
+  async expandMessage(compact: CompactMessage): Promise<AIMessage> {
+    if (!(compact.mt in MessageType) || !(compact.p in Priority) || !this.codecs.has(compact.e)) {
+      throw new Error(`Invalid compact message: ${compact.i}`);
+    }
+
+    const message: AIMessage = {
+      id: compact.i,
+      timestamp: compact.t,
+      senderId: compact.s,
+      receiverId: compact.r,
+      content: await this.decodeContent(compact),
+      messageType: compact.mt as MessageType,
+      priority: compact.p as Priority,
+      compressed: compact.cp,
+      encoding: compact.e
+    };
+
+    if (compact.cm !== undefined) {
+      message.compressionMode = compact.cm as CompressionMode;
+    }
+    if (compact.z !== undefined) {
+      message.compression = compact.z as AIMessage['compression'];
+    }
+    if (compact.d !== undefined) {
+      message.dictionary = compact.d;
+    }
+
+    return message;
+  }
+
+  /**
+   * Decode the content of a compact message, inverting optimizeMessage
+   */
+  private async decodeContent(compact: CompactMessage): Promise<any> {
+    if (compact.cp) {
+      return compact.c;
+    }
+
+    // Abbreviations only expand correctly with the sender's exact dictionary
+    const optimizer = this.getDictionary(compact.d ?? DEFAULT_DICTIONARY);
+    if (compact.dh !== undefined && compact.dh !== optimizer.getDictionaryHash()) {
+      throw new Error(`Abbreviation dictionary ${compact.d ?? DEFAULT_DICTIONARY} differs from the sender's`);
+    }
+
+    const content = await this.codecs.get(compact.e).decode(compact.c, compact);
+    return compact.cm !== undefined ? optimizer.decompress(content, compact.cm) : content;
+  }
+
+  /**
+   * Serialize a complete message (envelope and optimized content) into one A114 packet.
+   * The envelope is written positionally, so only processing layers can read the packet.
+   */
+  async serializeMessage(message: AIMessage, options?: MessageSerializeOptions & { format?: 'buffer' }): Promise<Buffer>;
+  async serializeMessage(message: AIMessage, options: MessageSerializeOptions & { format: 'base64' }): Promise<string>;
+  async serializeMessage(message: AIMessage, options: MessageSerializeOptions = {}): Promise<Buffer | string> {
+    const { format, ...encodeOptions } = options;
+    const compact = await this.optimizeMessage(message);
+
+    const packet = await this.a114Protocol.encode(compact, { ...encodeOptions, schema: MESSAGE_SCHEMA_ID });
+    return format === 'base64' ? packet.toString('base64') : packet;
+  }
+
+  /**
+   * Restore a message from serializeMessage output, given as a Buffer or base64 string
+   */
+  async deserializeMessage(data: Buffer | string, options: A114DecodeOptions = {}): Promise<AIMessage> {
+    const packet = typeof data === 'string' ? Buffer.from(data, 'base64') : data;
+    const compact = await this.a114Protocol.decode(packet, options);
+
+    if (compact === null || typeof compact !== 'object' || typeof compact.i !== 'string') {
+      throw new Error('Invalid serialized message');
+    }
+
+    return this.expandMessage(compact);
+  }
+
+  /**
+   * Get the pending (unacknowledged) messages of an agent, oldest first
+   */
+  async receive(agentId: string, limit?: number): Promise<AIMessage[]> {
+    const pending = Array.from(this.inboxes.get(agentId)?.values() ?? []);
+    const selected = limit === undefined ? pending : pending.slice(0, limit);
+
+    return Promise.all(selected.map(compact => this.expandMessage(compact)));
+  }
+
+  /**
+   * Acknowledge a handled message, removing it from the agent's inbox
+   */
+  ack(agentId: string, messageId: string): boolean {
+    const removed = this.inboxes.get(agentId)?.delete(messageId) ?? false;
+    if (removed) {
+      this.agents.get(agentId)?.memoryContext.delete(`msg_${messageId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Subscribe to messages delivered to an agent. Returns an unsubscribe function.
+   * Handlers still have to ack() the messages they have processed.
+   */
+  onMessage(agentId: string, handler: MessageHandler): () => void {
+    let handlers = this.subscribers.get(agentId);
+    if (!handlers) {
+      handlers = new Set();
+      this.subscribers.set(agentId, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers!.delete(handler);
+      if (handlers!.size === 0) {
+        this.subscribers.delete(agentId);
+      }
+    };
+  }
+
+  /**
+   * Iterate over an agent's pending messages, waiting for new deliveries.
+   * Each pending message is yielded once per iterator; break out of the loop to stop.
+   */
+  async *messages(agentId: string): AsyncIterableIterator<AIMessage> {
+    const yielded = new Set<string>();
+
+    while (true) {
+      const inbox = this.inboxes.get(agentId) ?? new Map<string, CompactMessage>();
+
+      // Forget acknowledged messages, so only ids still pending are tracked
+      for (const id of yielded) {
+        if (!inbox.has(id)) {
+          yielded.delete(id);
+        }
+      }
+
+      const next = Array.from(inbox.values()).find(compact => !yielded.has(compact.i));
+
+      if (next) {
+        yielded.add(next.i);
+        yield await this.expandMessage(next);
+        continue;
+      }
+
+      await new Promise<void>(resolve => {
+        let waiters = this.waiters.get(agentId);
+        if (!waiters) {
+          waiters = new Set();
+          this.waiters.set(agentId, waiters);
+        }
+        waiters.add(resolve);
+      });
+    }
+  }
+
   /**
    * Get processing statistics
    */
@@ -248,10 +890,88 @@ export class AIProcessingLayer {
     return {
       registeredAgents: this.agents.size,
       cacheStats: this.cache.getStats(),
-      totalProcessingSteps: this.processingSteps.length
+      codecs: this.codecs.list(),
+      autoEncoding: {
+        selections: Object.fromEntries(this.autoSelections),
+        baselineBytes: this.autoBytes.baseline,
+        encodedBytes: this.autoBytes.encoded,
+        bytesSaved: this.autoBytes.baseline - this.autoBytes.encoded,
+        averageLatencyMs: Object.fromEntries(
+          Array.from(this.codecLatency, ([id, latency]) => [id, latency.total / latency.count])
+        )
+      },
+      totalProcessingSteps: this.processingSteps.length,
+      tokens: {
+        ...this.tokenTotals,
+        saved: this.tokenTotals.original - this.tokenTotals.encoded
+      }
     };
   }
 
+  /**
+   * Answer an A114 command from a peer.
+   * STAT returns getStats(); STORE ({ key, value, ttl?, priority? }) and LOAD ({ key }) use the cache;
+   * SYNC ({ agentId, memory? }) merges the peer's memory entries into the agent under the `peer_`
+   * prefix and returns its memory.
+   */
+  async handleCommand(command: string, data?: any): Promise<any> {
+    switch (command) {
+      case 'STAT':
+        return this.getStats();
+
+      case 'STORE':
+        if (typeof data?.key !== 'string') {
+          throw new Error('STORE requires a string key');
+        }
+        if (data.priority !== undefined && !(Number.isInteger(data.priority) && data.priority in Priority)) {
+          throw new Error(`Invalid STORE priority: ${data.priority}`);
+        }
+        await this.cache.set(data.key, data.value, data.ttl, data.priority);
+        return true;
+
+      case 'LOAD':
+        if (typeof data?.key !== 'string') {
+          throw new Error('LOAD requires a string key');
+        }
+        return (await this.cache.get(data.key)) ?? null;
+
+      case 'SYNC': {
+        const agent = this.agents.get(data?.agentId);
+        if (!agent) {
+          throw new Error(`Agent not registered: ${data?.agentId}`);
+        }
+        if (data.memory instanceof Map) {
+          if (Array.from(data.memory.keys()).some(key => typeof key !== 'string')) {
+            throw new Error('SYNC memory keys must be strings');
+          }
+          // A peer can add and update its own entries, never the layer's msg_ and learning_ ones
+          data.memory.forEach((value: any, key: string) => {
+            agent.memoryContext.set(key.startsWith(PEER_MEMORY_PREFIX) ? key : `${PEER_MEMORY_PREFIX}${key}`, value);
+          });
+          agent.lastActive = Date.now();
+        }
+        return new Map(agent.memoryContext);
+      }
+
+      default:
+        throw new Error(`Unsupported A114 command: ${command}`);
+    }
+  }
+
+  /**
+   * Create an A114 command session whose incoming commands are answered by handleCommand
+   */
+  createCommandSession(
+    send: (packet: Buffer) => void,
+    options: A114CommandSessionOptions = {}
+  ): A114CommandSession {
+    const session = new A114CommandSession(send, options, this.a114Protocol);
+    for (const command of ['STAT', 'STORE', 'LOAD', 'SYNC']) {
+      session.handle(command, data => this.handleCommand(command, data));
+    }
+    return session;
+  }
+
   /**
    * Clear agent memory and cache
    */
@@ -261,9 +981,18 @@ export class AIProcessingLayer {
       if (agent) {
         agent.memoryContext.clear();
       }
+      this.inboxes.delete(agentId);
     } else {
       this.agents.forEach(agent => agent.memoryContext.clear());
+      this.inboxes.clear();
       await this.cache.clear();
     }
   }
+
+  /**
+   * Write pending cache changes and release the cache storage
+   */
+  async close(): Promise<void> {
+    await this.cache.close();
+  }
 }
\ No newline at end of file
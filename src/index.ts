@@ -6,8 +6,22 @@
 // Core exports
 export { AIProcessingLayer } from './core/AIProcessingLayer';
 export { CacheManager } from './cache/CacheManager';
-export { A114Protocol } from './protocols/A114Protocol';
+export { A114Protocol, A114DecodeError } from './protocols/A114Protocol';
+export { A114Framer } from './protocols/A114Framer';
+export { A114CommandSession } from './protocols/A114CommandSession';
 export { TokenOptimizer } from './utils/TokenOptimizer';
+export { MessagePack } from './utils/MessagePack';
+export { AbbreviationMiner } from './utils/AbbreviationMiner';
+export { ContextBuilder } from './utils/ContextBuilder';
+export { BPETokenizer } from './tokenizers/BPETokenizer';
+export { CodecRegistry } from './codecs/CodecRegistry';
+export { JsonCodec } from './codecs/JsonCodec';
+export { CompressedJsonCodec } from './codecs/CompressedJsonCodec';
+export { MessagePackCodec } from './codecs/MessagePackCodec';
+export { A114Codec } from './codecs/A114Codec';
+export { TokenOptimizerCodec } from './codecs/TokenOptimizerCodec';
+export { FileStorageAdapter } from './storage/FileStorageAdapter';
+export { SQLiteStorageAdapter } from './storage/SQLiteStorageAdapter';
 
 // Type exports
 export * from './types';
@@ -16,11 +30,26 @@ export * from './types';
 import { AIProcessingLayer } from './core/AIProcessingLayer';
 import { CacheManager } from './cache/CacheManager';
 import { A114Protocol } from './protocols/A114Protocol';
+import { A114Framer } from './protocols/A114Framer';
+import { A114CommandSession } from './protocols/A114CommandSession';
 import { TokenOptimizer } from './utils/TokenOptimizer';
+import { MessagePack } from './utils/MessagePack';
+import { AbbreviationMiner } from './utils/AbbreviationMiner';
+import { ContextBuilder } from './utils/ContextBuilder';
+import { BPETokenizer } from './tokenizers/BPETokenizer';
+import { CodecRegistry } from './codecs/CodecRegistry';
+import { JsonCodec } from './codecs/JsonCodec';
+import { CompressedJsonCodec } from './codecs/CompressedJsonCodec';
+import { MessagePackCodec } from './codecs/MessagePackCodec';
+import { A114Codec } from './codecs/A114Codec';
+import { TokenOptimizerCodec } from './codecs/TokenOptimizerCodec';
+import { FileStorageAdapter } from './storage/FileStorageAdapter';
+import { SQLiteStorageAdapter } from './storage/SQLiteStorageAdapter';
+import { AIProcessingLayerOptions } from './types';
 
 // Factory function for quick setup
-export function createAIProcessingLayer() {
-  return new AIProcessingLayer();
+export function createAIProcessingLayer(options: AIProcessingLayerOptions = {}) {
+  return new AIProcessingLayer(options);
 }
 
 // Utility function to create a basic AI agent
@@ -39,7 +68,21 @@ export default {
   AIProcessingLayer,
   CacheManager,
   A114Protocol,
+  A114Framer,
+  A114CommandSession,
   TokenOptimizer,
+  MessagePack,
+  AbbreviationMiner,
+  ContextBuilder,
+  BPETokenizer,
+  CodecRegistry,
+  JsonCodec,
+  CompressedJsonCodec,
+  MessagePackCodec,
+  A114Codec,
+  TokenOptimizerCodec,
+  FileStorageAdapter,
+  SQLiteStorageAdapter,
   createAIProcessingLayer,
   createAIAgent
 };
\ No newline at end of file
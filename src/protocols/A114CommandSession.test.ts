@@ -0,0 +1,118 @@
+import { describe, it, expect } from '@jest/globals';
+import { A114CommandSession } from './A114CommandSession';
+import { A114Protocol } from './A114Protocol';
+import { AIProcessingLayer } from '../core/AIProcessingLayer';
+import { Priority } from '../types';
+
+const protocol = new A114Protocol();
+
+/**
+ * Deliver a packet to a session the way a framed transport would
+ */
+const deliverTo = (session: () => A114CommandSession) => (packet: Buffer) => {
+  protocol.readPacket(packet).then(frame => session().receive(frame));
+};
+
+/**
+ * Two sessions wired to each other
+ */
+function connect(server: (send: (packet: Buffer) => void) => A114CommandSession) {
+  let remote: A114CommandSession;
+  const client = new A114CommandSession(deliverTo(() => remote), { timeout: 1000 });
+  remote = server(deliverTo(() => client));
+  return client;
+}
+
+describe('A114CommandSession', () => {
+  it('resolves requests with the data of the matching ACK', async () => {
+    const client = connect(send => new A114CommandSession(send)
+      .handle('EXEC', data => data * 2)
+      .handle('EVAL', async data => `evaluated ${data}`));
+
+    await expect(Promise.all([client.request('EXEC', 21), client.request('EVAL', 'x')]))
+      .resolves.toEqual([42, 'evaluated x']);
+  });
+
+  it('rejects requests answered with NACK', async () => {
+    const client = connect(send => new A114CommandSession(send).handle('EXEC', () => {
+      throw new Error('not allowed');
+    }));
+
+    await expect(client.request('EXEC')).rejects.toThrow('A114 command EXEC rejected: not allowed');
+    await expect(client.request('DIAG')).rejects.toThrow('Unsupported A114 command: DIAG');
+  });
+
+  it('times out when no reply arrives', async () => {
+    const client = new A114CommandSession(() => undefined);
+
+    await expect(client.request('STAT', undefined, 10)).rejects.toThrow('timed out after 10 ms');
+  });
+
+  it('does not reply to notifications', async () => {
+    const sent: Buffer[] = [];
+    const received: any[] = [];
+    const session = new A114CommandSession(packet => sent.push(packet)).handle('PUSH', data => received.push(data));
+
+    await session.receive(await protocol.readPacket(protocol.frameCommand('PUSH', 'event')));
+
+    expect(received).toEqual(['event']);
+    expect(sent).toEqual([]);
+  });
+
+  it('rejects pending requests on close', async () => {
+    const client = new A114CommandSession(() => undefined);
+    const pending = client.request('STAT');
+
+    client.close();
+
+    await expect(pending).rejects.toThrow('session closed');
+  });
+
+  describe('processing layer commands', () => {
+    const layer = new AIProcessingLayer();
+    layer.registerAgent({ id: 'agent1', name: 'Agent', capabilities: [], memoryContext: new Map([['fact', 'a']]), lastActive: 0 });
+    const client = connect(send => layer.createCommandSession(send));
+
+    it('answers STAT with the processing statistics', async () => {
+      const stats = await client.request('STAT');
+
+      expect(stats.registeredAgents).toBe(1);
+    });
+
+    it('stores and loads cache entries', async () => {
+      await expect(client.request('STORE', { key: 'k', value: [1, 2], priority: Priority.HIGH })).resolves.toBe(true);
+
+      await expect(client.request('LOAD', { key: 'k' })).resolves.toEqual([1, 2]);
+      await expect(client.request('LOAD', { key: 'missing' })).resolves.toBeNull();
+      await expect(client.request('STORE', { value: 1 })).rejects.toThrow('STORE requires a string key');
+    });
+
+    it('refuses STORE priorities outside the Priority enum', async () => {
+      for (const priority of [7, -1, 1.5, 'HIGH']) {
+        await expect(client.request('STORE', { key: 'bad', value: 1, priority })).rejects.toThrow(`Invalid STORE priority: ${priority}`);
+      }
+      await expect(client.request('LOAD', { key: 'bad' })).resolves.toBeNull();
+    });
+
+    it('exchanges agent memory with SYNC', async () => {
+      const memory = await client.request('SYNC', { agentId: 'agent1', memory: new Map([['remote', 'b']]) });
+
+      expect(memory).toEqual(new Map([['fact', 'a'], ['peer_remote', 'b']]));
+      await expect(client.request('SYNC', { agentId: 'nobody' })).rejects.toThrow('Agent not registered');
+    });
+
+    it('keeps SYNC entries in the peer namespace', async () => {
+      const memory = await client.request('SYNC', {
+        agentId: 'agent1',
+        memory: new Map([['fact', 'forged'], ['msg_1', 'forged'], ['peer_remote', 'c']])
+      });
+
+      expect(memory.get('fact')).toBe('a');
+      expect(memory.has('msg_1')).toBe(false);
+      expect(memory.get('peer_fact')).toBe('forged');
+      expect(memory.get('peer_msg_1')).toBe('forged');
+      expect(memory.get('peer_remote')).toBe('c');
+      await expect(client.request('SYNC', { agentId: 'agent1', memory: new Map([[1, 'x']]) })).rejects.toThrow('SYNC memory keys must be strings');
+    });
+  });
+});
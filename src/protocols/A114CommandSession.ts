@@ -0,0 +1,140 @@
+import { A114CommandHandler, A114CommandSessionOptions, A114Frame } from '../types';
+import { A114Protocol } from './A114Protocol';
+
+/**
+ * A request awaiting its ACK/NACK
+ */
+interface PendingRequest {
+  command: string;
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Request/response layer for A114 command packets.
+ *
+ * Outgoing requests get a request id and resolve with the data of the matching
+ * ACK, or reject on NACK or timeout. Incoming commands are passed to the handler
+ * registered for them and answered with ACK (handler result) or NACK (error message).
+ * The session is transport-agnostic: packets leave through `send` and frames
+ * (e.g. from an A114Framer) come in through `receive`.
+ */
+export class A114CommandSession {
+  private protocol: A114Protocol;
+  private send: (packet: Buffer) => void;
+  private timeout: number;
+  private handlers: Map<string, A114CommandHandler> = new Map();
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextRequestId = 1;
+
+  constructor(
+    send: (packet: Buffer) => void,
+    options: A114CommandSessionOptions = {},
+    protocol: A114Protocol = new A114Protocol()
+  ) {
+    this.send = send;
+    this.timeout = options.timeout ?? 30000;
+    this.protocol = protocol;
+  }
+
+  /**
+   * Send a command and wait for the peer's reply
+   */
+  request(command: string, data?: any, timeout: number = this.timeout): Promise<any> {
+    const requestId = this.nextRequestId;
+    this.nextRequestId = this.nextRequestId >= 0xFFFFFFFF ? 1 : this.nextRequestId + 1;
+
+    const packet = this.protocol.frameCommand(command, data, requestId);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`A114 command ${command} timed out after ${timeout} ms`));
+      }, timeout);
+
+      this.pending.set(requestId, { command, resolve, reject, timer });
+
+      try {
+        this.send(packet);
+      } catch (error) {
+        this.settle(requestId);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Send a command that expects no reply
+   */
+  notify(command: string, data?: any): void {
+    this.send(this.protocol.frameCommand(command, data));
+  }
+
+  /**
+   * Register the handler answering an incoming command
+   */
+  handle(command: string, handler: A114CommandHandler): this {
+    this.handlers.set(command, handler);
+    return this;
+  }
+
+  /**
+   * Process an incoming frame. Returns false for frames that are not commands.
+   */
+  async receive(frame: A114Frame): Promise<boolean> {
+    if (frame.kind !== 'command') {
+      return false;
+    }
+
+    if (frame.command === 'ACK' || frame.command === 'NACK') {
+      const request = this.settle(frame.requestId);
+      if (request) {
+        if (frame.command === 'ACK') {
+          request.resolve(frame.data);
+        } else {
+          request.reject(new Error(`A114 command ${request.command} rejected: ${frame.data}`));
+        }
+      }
+      return true;
+    }
+
+    let reply: Buffer;
+    try {
+      const handler = this.handlers.get(frame.command);
+      if (!handler) {
+        throw new Error(`Unsupported A114 command: ${frame.command}`);
+      }
+      const result = await handler(frame.data);
+      reply = this.protocol.frameCommand('ACK', result, frame.requestId);
+    } catch (error) {
+      reply = this.protocol.frameCommand('NACK', (error as Error).message, frame.requestId);
+    }
+
+    if (frame.requestId !== 0) {
+      this.send(reply);
+    }
+    return true;
+  }
+
+  /**
+   * Reject all requests still waiting for a reply
+   */
+  close(): void {
+    for (const requestId of Array.from(this.pending.keys())) {
+      this.settle(requestId)!.reject(new Error('A114 command session closed'));
+    }
+  }
+
+  /**
+   * Remove a pending request and stop its timer
+   */
+  private settle(requestId: number): PendingRequest | undefined {
+    const request = this.pending.get(requestId);
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(requestId);
+    }
+    return request;
+  }
+}
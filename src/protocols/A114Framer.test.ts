@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import { A114Framer } from './A114Framer';
+import { A114Protocol } from './A114Protocol';
+import { A114Frame } from '../types';
+
+/**
+ * Feed chunks through a framer and collect its frames and framing errors
+ */
+async function run(chunks: Buffer[], framer = new A114Framer()): Promise<{ frames: A114Frame[], errors: any[] }> {
+  const frames: A114Frame[] = [];
+  const errors: any[] = [];
+  framer.on('data', frame => frames.push(frame));
+  framer.on('frameError', error => errors.push(error));
+
+  const finished = new Promise(resolve => framer.on('end', resolve));
+  chunks.forEach(chunk => framer.write(chunk));
+  framer.end();
+  await finished;
+
+  return { frames, errors };
+}
+
+describe('A114Framer', () => {
+  const protocol = new A114Protocol();
+
+  it('emits packets split across arbitrary chunk boundaries', async () => {
+    const stream = Buffer.concat([
+      await protocol.encode({ a: 1 }),
+      await protocol.encode('two', { checksum: true }),
+      await protocol.encode([3])
+    ]);
+    const bytes = Array.from(stream, byte => Buffer.from([byte]));
+
+    const { frames, errors } = await run(bytes);
+
+    expect(errors).toEqual([]);
+    expect(frames).toEqual([
+      { kind: 'data', value: { a: 1 } },
+      { kind: 'data', value: 'two' },
+      { kind: 'data', value: [3] }
+    ]);
+  });
+
+  it('emits several packets from a single chunk', async () => {
+    const chunk = Buffer.concat([await protocol.encode(1), await protocol.encode(2)]);
+
+    const { frames } = await run([chunk]);
+
+    expect(frames.map(frame => frame.kind === 'data' && frame.value)).toEqual([1, 2]);
+  });
+
+  it('parses framed command packets', async () => {
+    const { frames } = await run([protocol.frameCommand('STAT'), protocol.frameCommand('STORE', { k: 'v' }, 300)]);
+
+    expect(frames).toEqual([
+      { kind: 'command', command: 'STAT', requestId: 0, data: undefined },
+      { kind: 'command', command: 'STORE', requestId: 300, data: { k: 'v' } }
+    ]);
+  });
+
+  it('skips garbage and resynchronises on the next packet', async () => {
+    const chunk = Buffer.concat([Buffer.from('noise\xa1'), await protocol.encode('ok')]);
+
+    const { frames, errors } = await run([chunk]);
+
+    expect(frames).toEqual([{ kind: 'data', value: 'ok' }]);
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors[0].message).toContain('wrong magic bytes');
+  });
+
+  it('reports undecodable packets without losing the following ones', async () => {
+    const corrupt = await protocol.encode('corrupt', { checksum: true });
+    corrupt[10] ^= 0xff;
+
+    const { frames, errors } = await run([corrupt, await protocol.encode('next')]);
+
+    expect(frames).toEqual([{ kind: 'data', value: 'next' }]);
+    expect(errors.map(error => error.message)).toEqual(['Invalid A114 packet: checksum mismatch']);
+    expect(errors[0].discarded).toBe(corrupt.length);
+  });
+
+  it('rejects packets above the size limit', async () => {
+    const big = await protocol.encode('x'.repeat(100));
+
+    const { frames, errors } = await run([big], new A114Framer({ maxPacketSize: 64 }));
+
+    expect(frames).toEqual([]);
+    expect(errors[0].message).toContain('exceeds the 64 byte limit');
+  });
+
+  it('reports a truncated packet at the end of the stream', async () => {
+    const packet = await protocol.encode('truncated');
+
+    const { frames, errors } = await run([packet.subarray(0, packet.length - 2)]);
+
+    expect(frames).toEqual([]);
+    expect(errors[0].message).toContain('Truncated');
+  });
+});
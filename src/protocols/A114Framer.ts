@@ -0,0 +1,103 @@
+import { Transform, TransformCallback } from 'stream';
+import { A114DecodeOptions, A114FramerOptions } from '../types';
+import { A114Protocol } from './A114Protocol';
+
+const MAGIC = Buffer.from([0xA1, 0x14]);
+
+/**
+ * Incremental A114 parser for sockets, pipes and other byte streams.
+ * Write raw chunks in; whole packets come out as A114Frame objects.
+ *
+ * Framing errors (bad magic, unsupported header, oversized or undecodable
+ * packets) are reported through the 'frameError' event instead of 'error',
+ * so the stream keeps running: the parser skips to the next A114 magic and
+ * carries on.
+ */
+export class A114Framer extends Transform {
+  private protocol: A114Protocol;
+  private decodeOptions: A114DecodeOptions;
+  private maxPacketSize: number;
+  private buffered: Buffer = Buffer.alloc(0);
+
+  constructor(options: A114FramerOptions = {}, protocol: A114Protocol = new A114Protocol()) {
+    super({ readableObjectMode: true });
+    const { maxPacketSize, ...decodeOptions } = options;
+    this.protocol = protocol;
+    this.decodeOptions = decodeOptions;
+    this.maxPacketSize = maxPacketSize ?? 16 * 1024 * 1024;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffered = this.buffered.length === 0 ? chunk : Buffer.concat([this.buffered, chunk]);
+    this.drain().then(() => callback(), callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.buffered.length > 0) {
+      this.reportError(new Error('Truncated A114 packet at end of stream'), this.buffered.length);
+      this.buffered = Buffer.alloc(0);
+    }
+    callback();
+  }
+
+  /**
+   * Emit every complete packet in the buffer
+   */
+  private async drain(): Promise<void> {
+    while (this.buffered.length >= this.protocol.HEADER_SIZE) {
+      if (!this.buffered.subarray(0, MAGIC.length).equals(MAGIC)) {
+        this.resync(new Error('Invalid A114 packet: wrong magic bytes'));
+        continue;
+      }
+
+      let packetLength: number;
+      try {
+        packetLength = this.protocol.readHeader(this.buffered).packetLength;
+      } catch (error) {
+        this.resync(error as Error);
+        continue;
+      }
+
+      if (packetLength > this.maxPacketSize) {
+        this.resync(new Error(`A114 packet of ${packetLength} bytes exceeds the ${this.maxPacketSize} byte limit`));
+        continue;
+      }
+
+      if (this.buffered.length < packetLength) {
+        return;
+      }
+
+      const packet = this.buffered.subarray(0, packetLength);
+      this.buffered = this.buffered.subarray(packetLength);
+
+      // The packet is consumed either way, so a decode failure does not lose sync
+      try {
+        this.push(await this.protocol.readPacket(packet, this.decodeOptions));
+      } catch (error) {
+        this.reportError(error as Error, packet.length);
+      }
+    }
+  }
+
+  /**
+   * Drop bytes up to the next candidate packet start
+   */
+  private resync(error: Error): void {
+    let next = this.buffered.indexOf(MAGIC, 1);
+    if (next === -1) {
+      // Keep a trailing first magic byte, the rest of the magic may still arrive
+      const last = this.buffered.length - 1;
+      next = this.buffered[last] === MAGIC[0] ? last : this.buffered.length;
+    }
+
+    this.reportError(error, next);
+    this.buffered = this.buffered.subarray(next);
+  }
+
+  /**
+   * Report a framing error with the number of bytes that were skipped
+   */
+  private reportError(error: Error, discarded: number): void {
+    this.emit('frameError', Object.assign(error, { discarded }));
+  }
+}
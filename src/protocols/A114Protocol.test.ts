@@ -0,0 +1,453 @@
+import { describe, it, expect } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as fc from 'fast-check';
+import { A114DecodeError, A114Protocol } from './A114Protocol';
+
+/**
+ * JSON-like values the A114 wire format supports
+ */
+const a114Value = fc.letrec(tie => ({
+  value: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    fc.constant(null),
+    fc.boolean(),
+    fc.integer(),
+    fc.maxSafeInteger(),
+    fc.double(),
+    fc.bigInt(),
+    fc.fullUnicodeString(),
+    fc.uint8Array({ maxLength: 16 }).map(bytes => Buffer.from(bytes)),
+    fc.float32Array({ maxLength: 8 }),
+    fc.float64Array({ maxLength: 8 }),
+    fc.int16Array({ maxLength: 8 }),
+    fc.date({ noInvalidDate: true }),
+    fc.array(tie('value'), { maxLength: 5 }),
+    fc.dictionary(fc.fullUnicodeString({ maxLength: 10 }), tie('value'), { maxKeys: 5 }),
+    fc.array(fc.tuple(tie('value'), tie('value')), { maxLength: 3 }).map(entries => new Map(entries)),
+    fc.array(fc.oneof(fc.integer(), fc.string()), { maxLength: 5 }).map(items => new Set(items))
+  )
+})).value;
+
+/**
+ * Golden A114 packets. A failure here means the wire format changed:
+ * bump the protocol version instead of updating the bytes.
+ */
+const GOLDEN_PACKETS: { name: string, value: any, hex: string }[] = [
+  { name: 'null', value: null, hex: 'a11403000000000100' },
+  { name: 'boolean', value: true, hex: 'a1140300000000020101' },
+  { name: 'int8', value: -5, hex: 'a11403000000000202fb' },
+  { name: 'int16', value: 1000, hex: 'a1140300000000030303e8' },
+  { name: 'int32', value: -100000, hex: 'a11403000000000504fffe7960' },
+  { name: 'int64', value: 1700000000000, hex: 'a1140300000000090b0000018bcfe56800' },
+  { name: 'float32', value: 1.5, hex: 'a114030000000005053fc00000' },
+  { name: 'float64', value: 0.1, hex: 'a114030000000009063fb999999999999a' },
+  { name: 'bigint', value: 42n, hex: 'a1140300000000040d00012a' },
+  { name: 'int64 bigint', value: -(2n ** 62n), hex: 'a1140300000000090bc000000000000000' },
+  { name: 'uint64 bigint', value: 2n ** 64n - 1n, hex: 'a1140300000000090cffffffffffffffff' },
+  { name: 'fixstr', value: 'héllo', hex: 'a1140300000000078668c3a96c6c6f' },
+  {
+    name: 'string',
+    value: 'x'.repeat(40),
+    hex: 'a11403000000002a0728' + '78'.repeat(40)
+  },
+  { name: 'binary', value: Buffer.from([1, 2, 255]), hex: 'a1140300000000050a030102ff' },
+  { name: 'float32 array', value: new Float32Array([1.5]), hex: 'a1140300000000070e07040000c03f' },
+  { name: 'date', value: new Date(0), hex: 'a1140300000000090f0000000000000000' },
+  { name: 'map', value: new Map([['a', 1]]), hex: 'a114030000000006100181610201' },
+  { name: 'set', value: new Set([true]), hex: 'a11403000000000411010101' },
+  { name: 'fixarray', value: [1, 'a', false], hex: 'a114030000000007a3020181610100' },
+  { name: 'array', value: Array(16).fill(0), hex: 'a1140300000000220810' + '0200'.repeat(16) },
+  { name: 'fixmap', value: { id: 7, tags: ['x'] }, hex: 'a11403000000000eb282696402078474616773a18178' },
+  {
+    name: 'interned strings',
+    value: [{ name: 'xy' }, { name: 'xy' }, { name: 'xy' }],
+    hex: 'a11403010000001901046e616d65a3b11200827879b11200827879b11200827879'
+  }
+];
+
+/**
+ * Packets written by earlier protocol versions that must keep decoding
+ */
+const LEGACY_PACKETS: { name: string, value: any, hex: string }[] = [
+  { name: 'v1 int32', value: -100000, hex: 'a11401000000000504fffe7960' },
+  { name: 'v1 float64', value: 1.5, hex: 'a114010000000009063ff8000000000000' },
+  {
+    name: 'v1 object',
+    value: { id: 7, tags: ['x'] },
+    hex: 'a11401000000002209000000020700000002696402070700000004746167730800000001070000000178'
+  },
+  { name: 'v2 bigint', value: 42n, hex: 'a1140200000000070d00000000012a' },
+  { name: 'v2 string', value: 'héllo', hex: 'a11402000000000b070000000668c3a96c6c6f' },
+  { name: 'v2 float32 array', value: new Float32Array([1.5]), hex: 'a11402000000000a0e07000000040000c03f' },
+  { name: 'v2 map', value: new Map([['a', 1]]), hex: 'a11402000000000d10000000010700000001610201' },
+  {
+    name: 'v2 interned strings',
+    value: [{ a: 'xy' }, { a: 'xy' }],
+    hex: 'a11402010000001d0201610278790800000002090000000112001201090000000112001201'
+  },
+  {
+    // Encoders now leave strings this short inline
+    name: 'v3 interned short strings',
+    value: [{ a: 'xy' }, { a: 'xy' }],
+    hex: 'a114030100000011020161027879a2b112001201b112001201'
+  }
+];
+
+describe('A114Protocol', () => {
+  const protocol = new A114Protocol();
+
+  describe('round trip', () => {
+    it('decodes every encoded value back to an equal value', async () => {
+      await fc.assert(
+        fc.asyncProperty(a114Value, async value => {
+          const decoded = await protocol.decode(await protocol.encode(value));
+          expect(decoded).toEqual(value);
+        }),
+        { numRuns: 300 }
+      );
+    });
+
+    it('round trips edge-case numbers', async () => {
+      for (const value of [
+        NaN, Infinity, -Infinity, 0, -0, -128, 127, -32769, 2 ** 31, -(2 ** 31) - 1,
+        Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER, 2 ** 53, 1e300, 0.1, 1.5
+      ]) {
+        expect(await protocol.decode(await protocol.encode(value))).toEqual(value);
+      }
+    });
+
+    it('round trips bigints of any size as bigints', async () => {
+      for (const value of [0n, -1n, 2n ** 53n, -(2n ** 63n), 2n ** 63n, 2n ** 64n, -(10n ** 40n)]) {
+        expect(await protocol.decode(await protocol.encode(value))).toBe(value);
+      }
+    });
+
+    it('round trips millisecond timestamps as numbers', async () => {
+      const timestamp = Date.now();
+      expect(await protocol.decode(await protocol.encode({ t: timestamp }))).toEqual({ t: timestamp });
+    });
+
+    it('decodes binary, typed arrays, dates, maps and sets to the same types', async () => {
+      const value = {
+        blob: Buffer.from([0, 1, 254, 255]),
+        bytes: new Uint8Array([1, 2, 3]),
+        embedding: new Float32Array([0.25, -1.5, 3]),
+        wide: new BigInt64Array([-(2n ** 63n), 1n]),
+        when: new Date('2024-01-02T03:04:05.678Z'),
+        lookup: new Map<any, any>([['a', 1], [2, { b: true }]]),
+        tags: new Set(['x', 'y'])
+      };
+      const decoded = await protocol.decode(await protocol.encode(value));
+
+      expect(decoded).toEqual(value);
+      expect(Buffer.isBuffer(decoded.blob)).toBe(true);
+      expect(decoded.bytes).toBeInstanceOf(Uint8Array);
+      expect(Buffer.isBuffer(decoded.bytes)).toBe(false);
+      expect(decoded.embedding).toBeInstanceOf(Float32Array);
+      expect(decoded.wide).toBeInstanceOf(BigInt64Array);
+      expect(decoded.when).toBeInstanceOf(Date);
+      expect(decoded.lookup).toBeInstanceOf(Map);
+      expect(decoded.tags).toBeInstanceOf(Set);
+    });
+
+    it('encodes typed array views without their surrounding buffer', async () => {
+      const backing = new Float64Array([1, 2, 3, 4]);
+      const view = new Float64Array(backing.buffer, 8, 2);
+
+      expect(await protocol.decode(await protocol.encode(view))).toEqual(new Float64Array([2, 3]));
+    });
+
+    it('round trips empty containers and unicode strings', async () => {
+      const value = { '': [], nested: { empty: {} }, emoji: '🤖💬', cjk: '処理層' };
+      expect(await protocol.decode(await protocol.encode(value))).toEqual(value);
+    });
+
+    it('round trips with and without string interning', async () => {
+      await fc.assert(
+        fc.asyncProperty(a114Value, fc.boolean(), async (value, internStrings) => {
+          const decoded = await protocol.decode(await protocol.encode(value, { internStrings }));
+          expect(decoded).toEqual(value);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('round trips command packets', () => {
+      const packet = protocol.createCommand('STORE', { key: 'k', value: [1, 2, 3] });
+      expect(protocol.parseCommand(packet)).toEqual({ command: 'STORE', data: { key: 'k', value: [1, 2, 3] } });
+    });
+  });
+
+  describe('string interning', () => {
+    const records = Array.from({ length: 1000 }, (_, i) => ({ userId: i, status: 'active' }));
+
+    it('encodes repeated keys and values once per packet', async () => {
+      const plain = await protocol.encode(records, { internStrings: false });
+      const interned = await protocol.encode(records);
+
+      expect(interned.length).toBeLessThan(plain.length / 2);
+      expect(await protocol.decode(interned)).toEqual(records);
+    });
+
+    it('never makes a packet larger than encoding without the table', async () => {
+      expect((await protocol.encode({ a: 'a', b: 'a' })).length).toBe((await protocol.encode({ a: 'a', b: 'a' }, { internStrings: false })).length);
+
+      await fc.assert(
+        fc.asyncProperty(a114Value, async value => {
+          const interned = await protocol.encode(value);
+          const plain = await protocol.encode(value, { internStrings: false });
+          expect(interned.length).toBeLessThanOrEqual(plain.length);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('references a shared session table when both peers have it', async () => {
+      const table = protocol.learnStringTable(records.slice(0, 2));
+      const packet = await protocol.encode(records, { sharedStrings: table });
+
+      expect(table.strings).toEqual(['userId', 'status', 'active']);
+      expect(await protocol.decode(packet, { sharedStrings: table })).toEqual(records);
+    });
+
+    it('produces the same table id on both sides', () => {
+      expect(protocol.createStringTable(['a', 'b']).id).toBe(new A114Protocol().createStringTable(['a', 'b']).id);
+      expect(protocol.createStringTable(['a', 'b']).id).not.toBe(protocol.createStringTable(['b', 'a']).id);
+    });
+
+    it('rejects packets that reference a table the decoder does not have', async () => {
+      const packet = await protocol.encode({ kind: 'kind' }, { sharedStrings: protocol.createStringTable(['kind']) });
+
+      await expect(protocol.decode(packet)).rejects.toThrow('Unknown A114 shared string table');
+      await expect(protocol.decode(packet, { sharedStrings: protocol.createStringTable(['other']) }))
+        .rejects.toThrow('Unknown A114 shared string table');
+    });
+  });
+
+  describe('schemas', () => {
+    const schemaProtocol = new A114Protocol();
+    schemaProtocol.registerSchema(1, [
+      { name: 'id', type: 'string' },
+      { name: 'priority', type: 'number' },
+      { name: 'tags', type: 'array', optional: true },
+      'content'
+    ]);
+
+    it('round trips objects and omits field names from the packet', async () => {
+      const value = { id: 'msg_1', priority: 2, content: { text: 'hello' } };
+      const packet = await schemaProtocol.encode(value, { schema: 1 });
+
+      expect(await schemaProtocol.decode(packet)).toEqual(value);
+      expect(packet.includes('priority')).toBe(false);
+      expect(packet.length).toBeLessThan((await schemaProtocol.encode(value)).length);
+    });
+
+    it('distinguishes missing optional fields from null values', async () => {
+      const value = { id: 'a', priority: 1, tags: ['x'], content: null };
+
+      expect(await schemaProtocol.decode(await schemaProtocol.encode(value, { schema: 1 }))).toEqual(value);
+    });
+
+    it('rejects objects that do not match the schema', async () => {
+      await expect(schemaProtocol.encode({ id: 'a', content: 1 }, { schema: 1 })).rejects.toThrow('missing required field "priority"');
+      await expect(schemaProtocol.encode({ id: 1, priority: 1, content: 1 }, { schema: 1 })).rejects.toThrow('"id" is not of type string');
+      await expect(schemaProtocol.encode({ id: 'a', priority: 1, content: 1, extra: 1 }, { schema: 1 })).rejects.toThrow('has no field "extra"');
+      await expect(schemaProtocol.encode({}, { schema: 9 })).rejects.toThrow('Unknown A114 schema: 9');
+    });
+
+    it('fails to decode packets using a schema the decoder does not know', async () => {
+      const packet = await schemaProtocol.encode({ id: 'a', priority: 1, content: 1 }, { schema: 1 });
+      const error = await protocol.decode(packet).catch(e => e);
+
+      expect(error).toBeInstanceOf(A114DecodeError);
+      expect(error.message).toBe('Unknown A114 schema: 1');
+    });
+
+    it('rejects duplicate schema ids and field names', () => {
+      expect(() => schemaProtocol.registerSchema(1, ['a'])).toThrow('already registered');
+      expect(() => schemaProtocol.registerSchema(2, ['a', 'a'])).toThrow('duplicate field names');
+    });
+  });
+
+  describe('header flags', () => {
+    const key = crypto.randomBytes(32);
+    const text = { text: 'token optimization '.repeat(50) };
+
+    it('round trips with any combination of compression, checksum and encryption', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          a114Value,
+          fc.constantFrom(undefined, 'deflate' as const, 'brotli' as const),
+          fc.boolean(),
+          fc.boolean(),
+          async (value, compression, checksum, encrypt) => {
+            const encryptionKey = encrypt ? key : undefined;
+            const packet = await protocol.encode(value, { compression, checksum, encryptionKey });
+            expect(await protocol.decode(packet, { encryptionKey })).toEqual(value);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('sets the compression flag only when compression shrinks the payload', async () => {
+      expect((await protocol.encode(text, { compression: 'deflate' })).readUInt8(3) & 0x04).toBe(0x04);
+      expect((await protocol.encode(text, { compression: 'brotli' })).readUInt8(3) & 0x08).toBe(0x08);
+      expect((await protocol.encode(1, { compression: 'deflate' })).readUInt8(3)).toBe(0);
+    });
+
+    it('detects corrupted packets with a checksum trailer', async () => {
+      const packet = await protocol.encode(text, { checksum: true });
+      packet[20] ^= 0xff;
+
+      await expect(protocol.decode(packet)).rejects.toThrow('checksum mismatch');
+    });
+
+    it('requires the right key for encrypted packets', async () => {
+      const packet = await protocol.encode(text, { encryptionKey: key });
+
+      expect(packet.includes(Buffer.from('token'))).toBe(false);
+      await expect(protocol.decode(packet)).rejects.toThrow('no encryption key provided');
+      await expect(protocol.decode(packet, { encryptionKey: crypto.randomBytes(32) })).rejects.toThrow('decryption failed');
+    });
+
+    it('rejects unencrypted packets when a key is given', async () => {
+      const packet = await protocol.encode(text);
+
+      await expect(protocol.decode(packet, { encryptionKey: key })).rejects.toThrow('Unencrypted A114 packet');
+      await expect(protocol.readPacket(packet, { encryptionKey: key })).rejects.toThrow('Unencrypted A114 packet');
+    });
+
+    it('rejects command packets with other flags', async () => {
+      for (const flag of [0x04, 0x10, 0x20]) {
+        const packet = protocol.frameCommand('STAT');
+        packet[3] |= flag;
+        await expect(protocol.readPacket(packet)).rejects.toThrow(`Unsupported A114 command packet flags: 0x${flag.toString(16)}`);
+      }
+    });
+
+    it('rejects unknown flags', async () => {
+      await expect(protocol.decode(Buffer.from('a11403800000000100', 'hex'))).rejects.toThrow('Unsupported A114 flags: 0x80');
+    });
+
+    it('refers command packets to readPacket', async () => {
+      await expect(protocol.decode(protocol.frameCommand('STAT'))).rejects.toThrow('use readPacket()');
+    });
+  });
+
+  describe('wire format', () => {
+    it.each(GOLDEN_PACKETS)('encodes $name to the golden bytes', async ({ value, hex }) => {
+      expect((await protocol.encode(value)).toString('hex')).toBe(hex);
+    });
+
+    it.each(GOLDEN_PACKETS)('decodes the golden $name packet', async ({ value, hex }) => {
+      expect(await protocol.decode(Buffer.from(hex, 'hex'))).toEqual(value);
+    });
+
+    it.each(LEGACY_PACKETS)('decodes the legacy $name packet', async ({ value, hex }) => {
+      expect(await protocol.decode(Buffer.from(hex, 'hex'))).toEqual(value);
+    });
+
+    it('encodes short strings and small containers with single-byte tags', async () => {
+      const packet = await protocol.encode({ ok: true });
+      expect(packet.length - 8).toBe(6); // fixmap tag, fixstr tag + 'ok', bool tag + value
+    });
+
+    it('rejects packets from unknown protocol versions', async () => {
+      await expect(protocol.decode(Buffer.from('a11409000000000100', 'hex'))).rejects.toThrow('Unsupported A114 version');
+    });
+
+    it('rejects packets with wrong magic bytes', async () => {
+      await expect(protocol.decode(Buffer.from('a21401000000000100', 'hex'))).rejects.toThrow('wrong magic bytes');
+    });
+
+    it('rejects packets whose payload length does not match the header', async () => {
+      await expect(protocol.decode(Buffer.from('a11401000000000200', 'hex'))).rejects.toThrow('payload length mismatch');
+    });
+  });
+
+  describe('untrusted input', () => {
+    /**
+     * Wrap a raw payload in a v3 header
+     */
+    const packet = (payloadHex: string, flags: number = 0) => {
+      const payload = Buffer.from(payloadHex, 'hex');
+      const header = Buffer.from([0xA1, 0x14, 3, flags, 0, 0, 0, 0]);
+      header.writeUInt32BE(payload.length, 4);
+      return Buffer.concat([header, payload]);
+    };
+
+    it('rejects a huge declared array length without reading past the buffer', async () => {
+      const error = await protocol.decode(packet('08ffffffff0f00')).catch(e => e);
+
+      expect(error).toBeInstanceOf(A114DecodeError);
+      expect(error.message).toContain('4294967295 elements declared');
+      expect(error.offset).toBe(14);
+    });
+
+    it('reports the offset of truncated values', async () => {
+      const error = await protocol.decode(packet('a20203')).catch(e => e);
+
+      expect(error).toBeInstanceOf(A114DecodeError);
+      expect(error.message).toContain('Unexpected end of A114 data');
+      expect(error.offset).toBe(11); // type byte of the second item
+    });
+
+    it('keeps __proto__ keys as own properties', async () => {
+      const decoded = await protocol.decode(packet('b1895f5f70726f746f5f5fb1836f776e0101'));
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+      expect(({} as any).own).toBeUndefined();
+    });
+
+    it('rejects object keys that are not strings', async () => {
+      await expect(protocol.decode(packet('b10201'))).rejects.toThrow('not a string');
+    });
+
+    it('enforces the depth limit', async () => {
+      let nested: any = 1;
+      for (let i = 0; i < 10; i++) nested = [nested];
+      const encoded = await protocol.encode(nested);
+
+      await expect(protocol.decode(encoded, { limits: { maxDepth: 10 } })).resolves.toEqual(nested);
+      await expect(protocol.decode(encoded, { limits: { maxDepth: 9 } })).rejects.toThrow('nested deeper than 9 levels');
+    });
+
+    it('enforces element and string limits set on the protocol', async () => {
+      const strict = new A114Protocol({ maxElements: 3, maxStringLength: 4 });
+
+      await expect(strict.decode(await protocol.encode([1, 2, 3, 4]))).rejects.toThrow('exceeds 3 elements');
+      await expect(strict.decode(await protocol.encode('hello'))).rejects.toThrow('exceeds the 4 byte limit');
+      await expect(strict.decode(await protocol.encode(['abcd']))).resolves.toEqual(['abcd']);
+    });
+
+    it('limits the decompressed size', async () => {
+      const encoded = await protocol.encode('x'.repeat(10000), { compression: 'deflate' });
+
+      await expect(protocol.decode(encoded, { limits: { maxDecompressedSize: 1000 } }))
+        .rejects.toThrow('exceeds 1000 bytes when decompressed');
+    });
+
+    it('rejects trailing bytes after the value', async () => {
+      await expect(protocol.decode(packet('0000'))).rejects.toThrow('trailing bytes');
+    });
+
+    it('fails on random bytes with A114DecodeError only', async () => {
+      let rejected = 0;
+
+      await fc.assert(
+        fc.asyncProperty(fc.uint8Array({ maxLength: 64 }), fc.nat(0x7f), async (bytes, flags) => {
+          try {
+            await protocol.decode(packet(Buffer.from(bytes).toString('hex'), flags));
+          } catch (error) {
+            rejected++;
+            expect(error).toBeInstanceOf(A114DecodeError);
+          }
+        }),
+        { numRuns: 500 }
+      );
+      expect(rejected).toBeGreaterThan(0);
+    });
+  });
+});
@@ -1,10 +1,75 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import {
+  A114DecodeLimits,
+  A114DecodeOptions,
+  A114EncodeOptions,
+  A114Frame,
+  A114FieldType,
+  A114Header,
+  A114Schema,
+  A114SchemaField,
+  A114SharedStringTable
+} from '../types';
+import { crc32 } from '../utils/checksum';
+
+/**
+ * String references available while encoding one packet
+ */
+interface EncodeState {
+  strings?: Map<string, number>; // Per-packet string table
+  shared?: Map<string, number>;  // Negotiated session table
+}
+
+/**
+ * String tables, limits and counters for decoding one packet
+ */
+interface DecodeState {
+  version: number; // Packet version, v1 and v2 use fixed 4-byte lengths
+  strings: string[];
+  shared: string[];
+  limits: Required<A114DecodeLimits>;
+  depth: number;
+  elements: number;
+  baseOffset: number; // Added to error offsets so they point into the packet
+}
+
+const DEFAULT_DECODE_LIMITS: Required<A114DecodeLimits> = {
+  maxDepth: 64,
+  maxElements: 1000000,
+  maxStringLength: 16 * 1024 * 1024,
+  maxDecompressedSize: 64 * 1024 * 1024
+};
+
+/**
+ * Raised for malformed or over-limit A114 data
+ */
+export class A114DecodeError extends Error {
+  /**
+   * Byte offset of the problem: within the packet, or within the decrypted and
+   * decompressed payload for packets that were compressed or encrypted
+   */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'A114DecodeError';
+    this.offset = offset;
+  }
+}
+
 /**
  * A114 Protocol Implementation
  * A custom binary protocol for ultra-efficient AI-to-AI communication
  */
 export class A114Protocol {
-  private readonly HEADER_SIZE = 8; // bytes
-  private readonly VERSION = 1;
+  readonly HEADER_SIZE = 8; // bytes
+  private readonly CHECKSUM_SIZE = 4; // CRC32 trailer
+  private readonly IV_SIZE = 12; // AES-256-GCM
+  private readonly AUTH_TAG_SIZE = 16;
+  private readonly VERSION = 3;
+  // v2 adds 64-bit, bigint, binary and collection types; v3 uses varint lengths and fix types
+  private readonly SUPPORTED_VERSIONS = [1, 2, 3];
   
   // A114 Command codes for efficient communication
   private readonly COMMANDS = {
@@ -51,41 +116,423 @@ export class A114Protocol {
     STRING: 0x07,
     ARRAY: 0x08,
     OBJECT: 0x09,
-    BINARY: 0x0A
+    BINARY: 0x0A,
+    INT64: 0x0B,
+    UINT64: 0x0C,
+    BIGINT: 0x0D,
+    TYPED_ARRAY: 0x0E,
+    DATE: 0x0F,
+    MAP: 0x10,
+    SET: 0x11,
+    STRING_REF: 0x12,
+    SHARED_REF: 0x13,
+    SCHEMA: 0x14 // Varint schema id, presence bitmap of the optional fields, field values
+  };
+
+  // v3 single-byte tags for small containers: tag base + length
+  private readonly FIX_TYPES = {
+    STRING: 0x80, // 0x80-0x9F: strings of 0-31 bytes
+    ARRAY: 0xA0,  // 0xA0-0xAF: arrays of 0-15 items
+    OBJECT: 0xB0  // 0xB0-0xBF: objects of 0-15 keys
+  };
+
+  // Header flag bits. Every unknown bit is mandatory and makes the packet undecodable.
+  private readonly FLAGS = {
+    STRING_TABLE: 0x01,   // Payload starts with a per-packet string table
+    SHARED_STRINGS: 0x02, // Payload references a shared string table, identified by its id
+    DEFLATE: 0x04,        // Payload is deflate-compressed
+    BROTLI: 0x08,         // Payload is brotli-compressed
+    CHECKSUM: 0x10,       // CRC32 of header and payload follows the payload
+    ENCRYPTED: 0x20,      // Payload is AES-256-GCM encrypted (IV + auth tag + ciphertext)
+    COMMAND: 0x40         // Payload is a command packet (command code + varint request id + encoded data)
   };
 
+  // Element kinds of TYPED_ARRAY values, indexed by their wire code
+  private readonly TYPED_ARRAY_KINDS = [
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array,
+    BigInt64Array,
+    BigUint64Array
+  ];
+
+  private readonly limits: Required<A114DecodeLimits>;
+  private schemas: Map<number, A114Schema> = new Map();
+
   /**
-   * Encode data using A114 protocol
+   * Decoding limits protect against malformed or hostile packets from untrusted peers
    */
-  async encode(data: any): Promise<Buffer> {
-    const payload = this.encodePayload(data);
-    const header = this.createHeader(payload.length);
-    
-    return Buffer.concat([header, payload]);
+  constructor(limits: A114DecodeLimits = {}) {
+    this.limits = { ...DEFAULT_DECODE_LIMITS, ...limits };
   }
 
   /**
-   * Decode A114 protocol data
+   * Encode data using A114 protocol.
+   * Repeated strings are interned in a per-packet table unless `internStrings` is false.
    */
-  async decode(buffer: Buffer): Promise<any> {
-    if (buffer.length < this.HEADER_SIZE) {
-      throw new Error('Invalid A114 packet: too short');
+  async encode(data: any, options: A114EncodeOptions = {}): Promise<Buffer> {
+    const prelude: Buffer[] = [];
+    const state: EncodeState = {};
+    let flags = 0;
+
+    if (options.sharedStrings) {
+      const idBuf = Buffer.alloc(4);
+      idBuf.writeUInt32BE(options.sharedStrings.id, 0);
+      prelude.push(idBuf);
+      state.shared = new Map(options.sharedStrings.strings.map((str, index) => [str, index]));
+      flags |= this.FLAGS.SHARED_STRINGS;
     }
 
-    const header = this.parseHeader(buffer.subarray(0, this.HEADER_SIZE));
-    const payload = buffer.subarray(this.HEADER_SIZE);
+    const schema = options.schema !== undefined ? this.requireSchema(options.schema) : undefined;
+
+    if (options.internStrings !== false) {
+      // With a schema only the field values are written, field names never reach the wire
+      const strings = schema ? schema.fields.map(field => data?.[field.name]) : data;
+      const table = this.buildStringTable(strings, state.shared);
+      if (table.length > 0) {
+        prelude.push(this.writeVarint(table.length));
+        for (const str of table) {
+          const strBuf = Buffer.from(str, 'utf8');
+          prelude.push(this.writeVarint(strBuf.length), strBuf);
+        }
+        state.strings = new Map(table.map((str, index) => [str, index]));
+        flags |= this.FLAGS.STRING_TABLE;
+      }
+    }
+
+    const body = schema ? this.encodeWithSchema(data, schema, state) : this.encodePayload(data, state);
+    let payload: Buffer = Buffer.concat([...prelude, body]);
+
+    // Compress, then encrypt, then checksum the packet as sent
+    if (options.compression) {
+      const compressed = options.compression === 'brotli'
+        ? zlib.brotliCompressSync(payload)
+        : zlib.deflateSync(payload);
+
+      if (compressed.length < payload.length) {
+        payload = compressed;
+        flags |= options.compression === 'brotli' ? this.FLAGS.BROTLI : this.FLAGS.DEFLATE;
+      }
+    }
+
+    if (options.encryptionKey) {
+      payload = this.encrypt(payload, options.encryptionKey);
+      flags |= this.FLAGS.ENCRYPTED;
+    }
 
-    if (payload.length !== header.payloadLength) {
-      throw new Error('Invalid A114 packet: payload length mismatch');
+    if (options.checksum) {
+      flags |= this.FLAGS.CHECKSUM;
     }
 
-    return this.decodePayload(payload);
+    const packet = Buffer.concat([this.createHeader(payload.length, flags), payload]);
+    if (!options.checksum) {
+      return packet;
+    }
+
+    const trailer = Buffer.alloc(this.CHECKSUM_SIZE);
+    trailer.writeUInt32BE(crc32(packet), 0);
+    return Buffer.concat([packet, trailer]);
+  }
+
+  /**
+   * Decode A114 protocol data.
+   * Malformed packets and packets exceeding the decode limits raise an A114DecodeError.
+   * With an encryption key, only encrypted packets are accepted, so a packet whose
+   * encryption was stripped in transit is rejected rather than read as plaintext.
+   */
+  async decode(buffer: Buffer, options: A114DecodeOptions = {}): Promise<any> {
+    const header = this.readHeader(buffer);
+
+    if (buffer.length !== header.packetLength) {
+      throw new A114DecodeError('Invalid A114 packet: payload length mismatch', this.HEADER_SIZE);
+    }
+
+    if (header.flags & this.FLAGS.COMMAND) {
+      throw new A114DecodeError('A114 command packet: use readPacket() or parseCommand()', 3);
+    }
+
+    const packetEnd = this.HEADER_SIZE + header.payloadLength;
+    if (header.flags & this.FLAGS.CHECKSUM) {
+      if (crc32(buffer.subarray(0, packetEnd)) !== buffer.readUInt32BE(packetEnd)) {
+        throw new A114DecodeError('Invalid A114 packet: checksum mismatch', packetEnd);
+      }
+    }
+
+    const limits = { ...this.limits, ...options.limits };
+    let payload = buffer.subarray(this.HEADER_SIZE, packetEnd);
+    let baseOffset = this.HEADER_SIZE;
+
+    if (header.flags & this.FLAGS.ENCRYPTED) {
+      if (!options.encryptionKey) {
+        throw new A114DecodeError('Encrypted A114 packet: no encryption key provided', this.HEADER_SIZE);
+      }
+      payload = this.decrypt(payload, options.encryptionKey);
+      baseOffset = 0;
+    } else if (options.encryptionKey) {
+      throw new A114DecodeError('Unencrypted A114 packet: an encryption key was provided', 3);
+    }
+
+    if (header.flags & (this.FLAGS.BROTLI | this.FLAGS.DEFLATE)) {
+      payload = this.decompress(payload, header.flags, limits.maxDecompressedSize);
+      baseOffset = 0;
+    }
+
+    const state = this.createDecodeState(header.version, limits, baseOffset);
+    let offset = 0;
+
+    if (header.flags & this.FLAGS.SHARED_STRINGS) {
+      this.ensureAvailable(payload, offset, 4, state);
+      const tableId = payload.readUInt32BE(offset);
+      if (!options.sharedStrings || options.sharedStrings.id !== tableId) {
+        throw this.decodeError(`Unknown A114 shared string table: 0x${tableId.toString(16)}`, offset, state);
+      }
+      state.shared = options.sharedStrings.strings;
+      offset += 4;
+    }
+
+    if (header.flags & this.FLAGS.STRING_TABLE) {
+      const count = this.readVarint(payload, offset, state);
+      this.countElements(payload, count.newOffset, count.value, state);
+      offset = count.newOffset;
+
+      // Table entries always use varint lengths, also in v2 packets
+      const tableState = { ...state, version: 3 };
+      for (let i = 0; i < count.value; i++) {
+        const str = this.decodeString(payload, offset, tableState);
+        state.strings.push(str.value);
+        offset = str.newOffset;
+      }
+    }
+
+    return this.decodePayload(payload, state, offset);
+  }
+
+  /**
+   * Inflate a compressed payload without exceeding the size limit
+   */
+  private decompress(payload: Buffer, flags: number, maxOutputLength: number): Buffer {
+    try {
+      return flags & this.FLAGS.BROTLI
+        ? zlib.brotliDecompressSync(payload, { maxOutputLength })
+        : zlib.inflateSync(payload, { maxOutputLength });
+    } catch (error) {
+      const reason = (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE'
+        ? `exceeds ${maxOutputLength} bytes when decompressed`
+        : 'decompression failed';
+      throw new A114DecodeError(`Invalid A114 packet: ${reason}`, this.HEADER_SIZE);
+    }
+  }
+
+  /**
+   * Encrypt a payload with AES-256-GCM
+   */
+  private encrypt(payload: Buffer, key: Buffer): Buffer {
+    const iv = crypto.randomBytes(this.IV_SIZE);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  /**
+   * Decrypt and authenticate an AES-256-GCM payload
+   */
+  private decrypt(payload: Buffer, key: Buffer): Buffer {
+    if (payload.length < this.IV_SIZE + this.AUTH_TAG_SIZE) {
+      throw new A114DecodeError('Invalid A114 packet: encrypted payload too short', this.HEADER_SIZE);
+    }
+
+    const iv = payload.subarray(0, this.IV_SIZE);
+    const authTag = payload.subarray(this.IV_SIZE, this.IV_SIZE + this.AUTH_TAG_SIZE);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(authTag);
+
+    try {
+      return Buffer.concat([decipher.update(payload.subarray(this.IV_SIZE + this.AUTH_TAG_SIZE)), decipher.final()]);
+    } catch (error) {
+      throw new A114DecodeError('Invalid A114 packet: decryption failed', this.HEADER_SIZE);
+    }
+  }
+
+  /**
+   * Create a string table to share between two peers for a session.
+   * Both sides must use the same strings in the same order; the id lets decoders verify that.
+   */
+  createStringTable(strings: string[]): A114SharedStringTable {
+    const unique = Array.from(new Set(strings));
+    return { id: this.hashStrings(unique), strings: unique };
+  }
+
+  /**
+   * Register a message shape. Objects encoded with `{ schema: id }` carry only their
+   * values, in field order; both peers must register the same schema under the same id.
+   * Plain strings are shorthand for fields of type 'any'.
+   */
+  registerSchema(id: number, fields: Array<string | A114SchemaField>): A114Schema {
+    if (!Number.isSafeInteger(id) || id < 0) {
+      throw new Error(`Invalid A114 schema id: ${id}`);
+    }
+    if (this.schemas.has(id)) {
+      throw new Error(`A114 schema ${id} is already registered`);
+    }
+
+    const schema: A114Schema = {
+      id,
+      fields: fields.map(field => typeof field === 'string' ? { name: field } : { ...field })
+    };
+
+    const names = new Set(schema.fields.map(field => field.name));
+    if (names.size !== schema.fields.length) {
+      throw new Error(`A114 schema ${id} has duplicate field names`);
+    }
+
+    this.schemas.set(id, schema);
+    return schema;
+  }
+
+  /**
+   * Get a registered schema
+   */
+  getSchema(id: number): A114Schema | undefined {
+    return this.schemas.get(id);
+  }
+
+  /**
+   * Build a shared string table from the most frequent strings in sample traffic
+   */
+  learnStringTable(samples: any[], maxEntries: number = 256): A114SharedStringTable {
+    const counts = new Map<string, number>();
+    samples.forEach(sample => this.countStrings(sample, counts));
+
+    const strings = Array.from(counts.entries())
+      .filter(([_, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, maxEntries)
+      .map(([str, _]) => str);
+
+    return this.createStringTable(strings);
+  }
+
+  /**
+   * Collect strings that occur more than once and are not in the shared table,
+   * most frequent first so they get the shortest references. A string is only
+   * interned when its table entry and references take fewer bytes than writing
+   * it inline every time, and the table is dropped when it saves nothing overall.
+   */
+  private buildStringTable(data: any, shared?: Map<string, number>): string[] {
+    const counts = new Map<string, number>();
+    this.countStrings(data, counts);
+
+    const candidates = Array.from(counts.entries())
+      .filter(([str, count]) => count > 1 && !shared?.has(str))
+      .sort((a, b) => b[1] - a[1]);
+
+    const table: string[] = [];
+    let saved = 0;
+    for (const [str, count] of candidates) {
+      const length = Buffer.byteLength(str, 'utf8');
+      const inline = length <= 31 ? 1 + length : 1 + this.writeVarint(length).length + length;
+      const entry = this.writeVarint(length).length + length;
+      const reference = 1 + this.writeVarint(table.length).length;
+
+      const saving = count * inline - (entry + count * reference);
+      if (saving > 0) {
+        table.push(str);
+        saved += saving;
+      }
+    }
+
+    return saved > this.writeVarint(table.length).length ? table : [];
+  }
+
+  /**
+   * Count string occurrences (keys and values) the way encodeValue visits them
+   */
+  private countStrings(value: any, counts: Map<string, number>): void {
+    if (typeof value === 'string') {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    } else if (value === null || typeof value !== 'object' || Buffer.isBuffer(value) ||
+               ArrayBuffer.isView(value) || value instanceof Date) {
+      return;
+    } else if (value instanceof Map) {
+      for (const [key, item] of value) {
+        this.countStrings(key, counts);
+        this.countStrings(item, counts);
+      }
+    } else if (value instanceof Set || Array.isArray(value)) {
+      for (const item of value) {
+        this.countStrings(item, counts);
+      }
+    } else {
+      for (const key of Object.keys(value)) {
+        this.countStrings(key, counts);
+        this.countStrings(value[key], counts);
+      }
+    }
+  }
+
+  /**
+   * FNV-1a hash identifying a string table
+   */
+  private hashStrings(strings: string[]): number {
+    let hash = 0x811c9dc5;
+    for (const byte of Buffer.from(strings.join('\0'), 'utf8')) {
+      hash ^= byte;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Write an unsigned LEB128 varint
+   */
+  private writeVarint(value: number): Buffer {
+    const bytes: number[] = [];
+    do {
+      let byte = value % 128;
+      value = Math.floor(value / 128);
+      if (value > 0) {
+        byte |= 0x80;
+      }
+      bytes.push(byte);
+    } while (value > 0);
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Read an unsigned LEB128 varint of at most 53 bits
+   */
+  private readVarint(buffer: Buffer, offset: number, state: DecodeState): { value: number, newOffset: number } {
+    const start = offset;
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+
+    do {
+      this.ensureAvailable(buffer, offset, 1, state);
+      byte = buffer.readUInt8(offset++);
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+
+      if (value > Number.MAX_SAFE_INTEGER) {
+        throw this.decodeError('Invalid A114 varint: too large', start, state);
+      }
+    } while (byte & 0x80);
+
+    return { value, newOffset: offset };
   }
 
   /**
    * Create A114 packet header
    */
-  private createHeader(payloadLength: number): Buffer {
+  private createHeader(payloadLength: number, flags: number = 0): Buffer {
     const header = Buffer.alloc(this.HEADER_SIZE);
     let offset = 0;
 
@@ -96,8 +543,8 @@ export class A114Protocol {
     // Version
     header.writeUInt8(this.VERSION, offset++);
     
-    // Flags (reserved)
-    header.writeUInt8(0x00, offset++);
+    // Flags
+    header.writeUInt8(flags, offset++);
     
     // Payload length
     header.writeUInt32BE(payloadLength, offset);
@@ -105,10 +552,50 @@ export class A114Protocol {
     return header;
   }
 
+  /**
+   * Read and validate the header at the start of a (possibly incomplete) packet.
+   * `packetLength` tells how many bytes the whole packet occupies.
+   */
+  readHeader(buffer: Buffer): A114Header {
+    if (buffer.length < this.HEADER_SIZE) {
+      throw new A114DecodeError('Invalid A114 packet: too short', buffer.length);
+    }
+
+    return this.parseHeader(buffer.subarray(0, this.HEADER_SIZE));
+  }
+
+  /**
+   * Decode a complete packet of any kind: data packets are decoded,
+   * command packets are parsed. Command packets carry no other flags.
+   */
+  async readPacket(buffer: Buffer, options: A114DecodeOptions = {}): Promise<A114Frame> {
+    const header = this.readHeader(buffer);
+
+    if (!(header.flags & this.FLAGS.COMMAND)) {
+      return { kind: 'data', value: await this.decode(buffer, options) };
+    }
+
+    if (header.flags !== this.FLAGS.COMMAND) {
+      throw new A114DecodeError(`Unsupported A114 command packet flags: 0x${(header.flags & ~this.FLAGS.COMMAND).toString(16)}`, 3);
+    }
+
+    if (buffer.length !== header.packetLength) {
+      throw new A114DecodeError('Invalid A114 packet: payload length mismatch', this.HEADER_SIZE);
+    }
+
+    const payload = buffer.subarray(this.HEADER_SIZE);
+    const state = this.createDecodeState(header.version, { ...this.limits, ...options.limits }, this.HEADER_SIZE);
+    this.ensureAvailable(payload, 0, 1, state);
+    const requestId = this.readVarint(payload, 1, state);
+    const { command, data } = this.parseCommandAt(payload, requestId.newOffset, state);
+
+    return { kind: 'command', command, requestId: requestId.value, data };
+  }
+
   /**
    * Parse A114 packet header
    */
-  private parseHeader(header: Buffer): any {
+  private parseHeader(header: Buffer): A114Header {
     let offset = 0;
 
     // Check magic bytes
@@ -116,111 +603,407 @@ export class A114Protocol {
     const magic2 = header.readUInt8(offset++);
     
     if (magic1 !== 0xA1 || magic2 !== 0x14) {
-      throw new Error('Invalid A114 packet: wrong magic bytes');
+      throw new A114DecodeError('Invalid A114 packet: wrong magic bytes', 0);
     }
 
     const version = header.readUInt8(offset++);
-    if (version !== this.VERSION) {
-      throw new Error(`Unsupported A114 version: ${version}`);
+    if (!this.SUPPORTED_VERSIONS.includes(version)) {
+      throw new A114DecodeError(`Unsupported A114 version: ${version}`, 2);
     }
 
     const flags = header.readUInt8(offset++);
+    const knownFlags = Object.values(this.FLAGS).reduce((mask, flag) => mask | flag, 0);
+    if (flags & ~knownFlags) {
+      throw new A114DecodeError(`Unsupported A114 flags: 0x${(flags & ~knownFlags).toString(16)}`, 3);
+    }
+
     const payloadLength = header.readUInt32BE(offset);
+    const trailerSize = flags & this.FLAGS.CHECKSUM ? this.CHECKSUM_SIZE : 0;
 
-    return { version, flags, payloadLength };
+    return { version, flags, payloadLength, packetLength: this.HEADER_SIZE + payloadLength + trailerSize };
   }
 
   /**
    * Encode payload data
    */
-  private encodePayload(data: any): Buffer {
+  private encodePayload(data: any, state: EncodeState = {}): Buffer {
     const chunks: Buffer[] = [];
-    this.encodeValue(data, chunks);
+    this.encodeValue(data, chunks, state);
     return Buffer.concat(chunks);
   }
 
+  /**
+   * Look up a schema for encoding
+   */
+  private requireSchema(id: number): A114Schema {
+    const schema = this.schemas.get(id);
+    if (!schema) {
+      throw new Error(`Unknown A114 schema: ${id}`);
+    }
+    return schema;
+  }
+
+  /**
+   * Encode an object as a SCHEMA value: schema id, optional field presence bits and values
+   */
+  private encodeWithSchema(data: any, schema: A114Schema, state: EncodeState): Buffer {
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`A114 schema ${schema.id} can only encode objects`);
+    }
+
+    for (const key of Object.keys(data)) {
+      if (!schema.fields.some(field => field.name === key)) {
+        throw new Error(`A114 schema ${schema.id} has no field "${key}"`);
+      }
+    }
+
+    const optionalFields = schema.fields.filter(field => field.optional);
+    const presence = Buffer.alloc(Math.ceil(optionalFields.length / 8));
+    const chunks: Buffer[] = [Buffer.from([this.DATA_TYPES.SCHEMA]), this.writeVarint(schema.id), presence];
+
+    for (const field of schema.fields) {
+      const value = data[field.name];
+
+      if (value === undefined) {
+        if (!field.optional) {
+          throw new Error(`A114 schema ${schema.id}: missing required field "${field.name}"`);
+        }
+        continue;
+      }
+
+      if (field.optional) {
+        const bit = optionalFields.indexOf(field);
+        presence[bit >> 3] |= 1 << (bit & 7);
+      }
+
+      if (!this.matchesFieldType(value, field.type)) {
+        throw new Error(`A114 schema ${schema.id}: field "${field.name}" is not of type ${field.type}`);
+      }
+      this.encodeValue(value, chunks, state);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Check a value against a schema field type
+   */
+  private matchesFieldType(value: any, type: A114FieldType = 'any'): boolean {
+    switch (type) {
+      case 'boolean':
+      case 'number':
+      case 'bigint':
+      case 'string':
+        return typeof value === type;
+      case 'binary':
+        return Buffer.isBuffer(value);
+      case 'date':
+        return value instanceof Date;
+      case 'array':
+        return Array.isArray(value);
+      case 'map':
+        return value instanceof Map;
+      case 'set':
+        return value instanceof Set;
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+          !(value instanceof Map) && !(value instanceof Set) && !(value instanceof Date) &&
+          !ArrayBuffer.isView(value);
+      default:
+        return true;
+    }
+  }
+
   /**
    * Encode a single value
    */
-  private encodeValue(value: any, chunks: Buffer[]): void {
+  private encodeValue(value: any, chunks: Buffer[], state: EncodeState): void {
     if (value === null || value === undefined) {
       chunks.push(Buffer.from([this.DATA_TYPES.NULL]));
     } else if (typeof value === 'boolean') {
       chunks.push(Buffer.from([this.DATA_TYPES.BOOL, value ? 1 : 0]));
     } else if (typeof value === 'number') {
-      if (Number.isInteger(value)) {
-        if (value >= -128 && value <= 127) {
-          const buf = Buffer.alloc(2);
-          buf.writeUInt8(this.DATA_TYPES.INT8, 0);
-          buf.writeInt8(value, 1);
-          chunks.push(buf);
-        } else if (value >= -32768 && value <= 32767) {
-          const buf = Buffer.alloc(3);
-          buf.writeUInt8(this.DATA_TYPES.INT16, 0);
-          buf.writeInt16BE(value, 1);
-          chunks.push(buf);
-        } else {
-          const buf = Buffer.alloc(5);
-          buf.writeUInt8(this.DATA_TYPES.INT32, 0);
-          buf.writeInt32BE(value, 1);
-          chunks.push(buf);
-        }
-      } else {
-        const buf = Buffer.alloc(9);
-        buf.writeUInt8(this.DATA_TYPES.FLOAT64, 0);
-        buf.writeDoubleBE(value, 1);
-        chunks.push(buf);
-      }
+      this.encodeNumber(value, chunks);
+    } else if (typeof value === 'bigint') {
+      this.encodeBigInt(value, chunks);
+    } else if (typeof value === 'string' && state.shared?.has(value)) {
+      chunks.push(this.typeWithLength(this.DATA_TYPES.SHARED_REF, state.shared.get(value)!));
+    } else if (typeof value === 'string' && state.strings?.has(value)) {
+      chunks.push(this.typeWithLength(this.DATA_TYPES.STRING_REF, state.strings.get(value)!));
     } else if (typeof value === 'string') {
       const strBuf = Buffer.from(value, 'utf8');
-      const lenBuf = Buffer.alloc(5);
-      lenBuf.writeUInt8(this.DATA_TYPES.STRING, 0);
-      lenBuf.writeUInt32BE(strBuf.length, 1);
-      chunks.push(lenBuf, strBuf);
+      const head = strBuf.length <= 31
+        ? Buffer.from([this.FIX_TYPES.STRING + strBuf.length])
+        : this.typeWithLength(this.DATA_TYPES.STRING, strBuf.length);
+      chunks.push(head, strBuf);
+    } else if (Buffer.isBuffer(value)) {
+      chunks.push(this.typeWithLength(this.DATA_TYPES.BINARY, value.length), value);
+    } else if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+      this.encodeTypedArray(value, chunks);
+    } else if (value instanceof Date) {
+      const buf = Buffer.alloc(9);
+      buf.writeUInt8(this.DATA_TYPES.DATE, 0);
+      buf.writeDoubleBE(value.getTime(), 1);
+      chunks.push(buf);
+    } else if (value instanceof Map) {
+      chunks.push(this.typeWithLength(this.DATA_TYPES.MAP, value.size));
+
+      for (const [key, item] of value) {
+        this.encodeValue(key, chunks, state);
+        this.encodeValue(item, chunks, state);
+      }
+    } else if (value instanceof Set) {
+      chunks.push(this.typeWithLength(this.DATA_TYPES.SET, value.size));
+
+      for (const item of value) {
+        this.encodeValue(item, chunks, state);
+      }
     } else if (Array.isArray(value)) {
-      const lenBuf = Buffer.alloc(5);
-      lenBuf.writeUInt8(this.DATA_TYPES.ARRAY, 0);
-      lenBuf.writeUInt32BE(value.length, 1);
-      chunks.push(lenBuf);
+      chunks.push(value.length <= 15
+        ? Buffer.from([this.FIX_TYPES.ARRAY + value.length])
+        : this.typeWithLength(this.DATA_TYPES.ARRAY, value.length));
       
       for (const item of value) {
-        this.encodeValue(item, chunks);
+        this.encodeValue(item, chunks, state);
       }
     } else if (typeof value === 'object') {
       const keys = Object.keys(value);
-      const lenBuf = Buffer.alloc(5);
-      lenBuf.writeUInt8(this.DATA_TYPES.OBJECT, 0);
-      lenBuf.writeUInt32BE(keys.length, 1);
-      chunks.push(lenBuf);
+      chunks.push(keys.length <= 15
+        ? Buffer.from([this.FIX_TYPES.OBJECT + keys.length])
+        : this.typeWithLength(this.DATA_TYPES.OBJECT, keys.length));
       
       for (const key of keys) {
-        this.encodeValue(key, chunks);
-        this.encodeValue(value[key], chunks);
+        this.encodeValue(key, chunks, state);
+        this.encodeValue(value[key], chunks, state);
       }
     }
   }
 
   /**
-   * Decode payload data
+   * Type tag followed by a varint length (or index)
    */
-  private decodePayload(payload: Buffer): any {
-    let offset = 0;
-    const result = this.decodeValue(payload, offset);
+  private typeWithLength(type: number, length: number): Buffer {
+    return Buffer.concat([Buffer.from([type]), this.writeVarint(length)]);
+  }
+
+  /**
+   * Encode a number using the smallest type that represents it exactly
+   */
+  private encodeNumber(value: number, chunks: Buffer[]): void {
+    if (!Number.isSafeInteger(value) || Object.is(value, -0)) {
+      if (Object.is(Math.fround(value), value)) {
+        const buf = Buffer.alloc(5);
+        buf.writeUInt8(this.DATA_TYPES.FLOAT32, 0);
+        buf.writeFloatBE(value, 1);
+        chunks.push(buf);
+      } else {
+        const buf = Buffer.alloc(9);
+        buf.writeUInt8(this.DATA_TYPES.FLOAT64, 0);
+        buf.writeDoubleBE(value, 1);
+        chunks.push(buf);
+      }
+    } else if (value >= -128 && value <= 127) {
+      const buf = Buffer.alloc(2);
+      buf.writeUInt8(this.DATA_TYPES.INT8, 0);
+      buf.writeInt8(value, 1);
+      chunks.push(buf);
+    } else if (value >= -32768 && value <= 32767) {
+      const buf = Buffer.alloc(3);
+      buf.writeUInt8(this.DATA_TYPES.INT16, 0);
+      buf.writeInt16BE(value, 1);
+      chunks.push(buf);
+    } else if (value >= -2147483648 && value <= 2147483647) {
+      const buf = Buffer.alloc(5);
+      buf.writeUInt8(this.DATA_TYPES.INT32, 0);
+      buf.writeInt32BE(value, 1);
+      chunks.push(buf);
+    } else {
+      const buf = Buffer.alloc(9);
+      buf.writeUInt8(this.DATA_TYPES.INT64, 0);
+      buf.writeBigInt64BE(BigInt(value), 1);
+      chunks.push(buf);
+    }
+  }
+
+  /**
+   * Encode a bigint. INT64/UINT64 decode to numbers when the value is a safe
+   * integer, so only bigints beyond that range use them; others use BIGINT.
+   */
+  private encodeBigInt(value: bigint, chunks: Buffer[]): void {
+    const isSafe = value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER);
+
+    if (!isSafe && value >= -(2n ** 63n) && value < 2n ** 63n) {
+      const buf = Buffer.alloc(9);
+      buf.writeUInt8(this.DATA_TYPES.INT64, 0);
+      buf.writeBigInt64BE(value, 1);
+      chunks.push(buf);
+    } else if (!isSafe && value >= 0n && value < 2n ** 64n) {
+      const buf = Buffer.alloc(9);
+      buf.writeUInt8(this.DATA_TYPES.UINT64, 0);
+      buf.writeBigUInt64BE(value, 1);
+      chunks.push(buf);
+    } else {
+      // Sign byte, magnitude length and big-endian magnitude
+      const magnitude = value < 0n ? -value : value;
+      const hex = magnitude === 0n ? '' : magnitude.toString(16);
+      const magBuf = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+      chunks.push(
+        Buffer.from([this.DATA_TYPES.BIGINT, value < 0n ? 1 : 0]),
+        this.writeVarint(magBuf.length),
+        magBuf
+      );
+    }
+  }
+
+  /**
+   * Encode a typed array as its kind, byte length and raw (little-endian) element bytes
+   */
+  private encodeTypedArray(value: ArrayBufferView, chunks: Buffer[]): void {
+    const kind = this.TYPED_ARRAY_KINDS.findIndex(ctor => value.constructor === ctor);
+    if (kind === -1) {
+      throw new Error(`Unsupported A114 typed array: ${value.constructor.name}`);
+    }
+
+    chunks.push(
+      Buffer.from([this.DATA_TYPES.TYPED_ARRAY, kind]),
+      this.writeVarint(value.byteLength),
+      Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+    );
+  }
+
+  /**
+   * Convert a 64-bit integer to a number when that is lossless
+   */
+  private fromInt64(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+
+  /**
+   * Decode payload data, which must hold exactly one value
+   */
+  private decodePayload(payload: Buffer, state: DecodeState, offset: number = 0): any {
+    const result = this.decodeValue(payload, offset, state);
+
+    if (result.newOffset !== payload.length) {
+      throw this.decodeError(`Unexpected ${payload.length - result.newOffset} trailing bytes in A114 data`, result.newOffset, state);
+    }
+
     return result.value;
   }
 
+  /**
+   * Fresh per-packet decoding state
+   */
+  private createDecodeState(version: number, limits: Required<A114DecodeLimits>, baseOffset: number): DecodeState {
+    return { version, strings: [], shared: [], limits, depth: 0, elements: 0, baseOffset };
+  }
+
+  /**
+   * Build an A114DecodeError pointing into the packet
+   */
+  private decodeError(message: string, offset: number, state: DecodeState): A114DecodeError {
+    return new A114DecodeError(message, state.baseOffset + offset);
+  }
+
+  /**
+   * Fail unless `bytes` more bytes are available at `offset`
+   */
+  private ensureAvailable(buffer: Buffer, offset: number, bytes: number, state: DecodeState): void {
+    if (bytes > buffer.length - offset) {
+      throw this.decodeError(`Unexpected end of A114 data: ${bytes} bytes needed, ${buffer.length - offset} left`, offset, state);
+    }
+  }
+
+  /**
+   * Account for the elements a container declares. Every element takes at least
+   * `bytesPerElement` bytes, so a count larger than the remaining data is invalid.
+   */
+  private countElements(buffer: Buffer, offset: number, count: number, state: DecodeState, bytesPerElement: number = 1): void {
+    if (count * bytesPerElement > buffer.length - offset) {
+      throw this.decodeError(`Invalid A114 length: ${count} elements declared, ${buffer.length - offset} bytes left`, offset, state);
+    }
+
+    state.elements += count;
+    if (state.elements > state.limits.maxElements) {
+      throw this.decodeError(`A114 data exceeds ${state.limits.maxElements} elements`, offset, state);
+    }
+  }
+
+  /**
+   * Read a container or string length in the packet version's format
+   */
+  private readLength(buffer: Buffer, offset: number, state: DecodeState): { value: number, newOffset: number } {
+    if (state.version >= 3) {
+      return this.readVarint(buffer, offset, state);
+    }
+    this.ensureAvailable(buffer, offset, 4, state);
+    return { value: buffer.readUInt32BE(offset), newOffset: offset + 4 };
+  }
+
+  /**
+   * Read a length-prefixed byte sequence of at most `maxLength` bytes
+   */
+  private readBytes(buffer: Buffer, offset: number, state: DecodeState, maxLength: number): { value: Buffer, newOffset: number } {
+    const length = this.readLength(buffer, offset, state);
+    if (length.value > maxLength) {
+      throw this.decodeError(`A114 value of ${length.value} bytes exceeds the ${maxLength} byte limit`, offset, state);
+    }
+    this.ensureAvailable(buffer, length.newOffset, length.value, state);
+
+    const end = length.newOffset + length.value;
+    return { value: buffer.subarray(length.newOffset, end), newOffset: end };
+  }
+
   /**
    * Decode a single value
    */
-  private decodeValue(buffer: Buffer, offset: number): { value: any, newOffset: number } {
+  private decodeValue(buffer: Buffer, offset: number, state: DecodeState): { value: any, newOffset: number } {
+    this.ensureAvailable(buffer, offset, 1, state);
+    const typeOffset = offset;
     const type = buffer.readUInt8(offset++);
 
+    if (type >= this.FIX_TYPES.STRING && state.version >= 3) {
+      if (type < this.FIX_TYPES.ARRAY) {
+        const strLen = type - this.FIX_TYPES.STRING;
+        if (strLen > state.limits.maxStringLength) {
+          throw this.decodeError(`A114 value of ${strLen} bytes exceeds the ${state.limits.maxStringLength} byte limit`, typeOffset, state);
+        }
+        this.ensureAvailable(buffer, offset, strLen, state);
+        return { value: buffer.toString('utf8', offset, offset + strLen), newOffset: offset + strLen };
+      } else if (type < this.FIX_TYPES.OBJECT) {
+        return this.decodeArray(buffer, offset, type - this.FIX_TYPES.ARRAY, state);
+      } else if (type < this.FIX_TYPES.OBJECT + 16) {
+        return this.decodeObject(buffer, offset, type - this.FIX_TYPES.OBJECT, state);
+      }
+    }
+
+    const fixedSizes: { [type: number]: number } = {
+      [this.DATA_TYPES.BOOL]: 1,
+      [this.DATA_TYPES.INT8]: 1,
+      [this.DATA_TYPES.INT16]: 2,
+      [this.DATA_TYPES.INT32]: 4,
+      [this.DATA_TYPES.INT64]: 8,
+      [this.DATA_TYPES.UINT64]: 8,
+      [this.DATA_TYPES.FLOAT32]: 4,
+      [this.DATA_TYPES.FLOAT64]: 8,
+      [this.DATA_TYPES.DATE]: 8
+    };
+    if (fixedSizes[type] !== undefined) {
+      this.ensureAvailable(buffer, offset, fixedSizes[type], state);
+    }
+
     switch (type) {
       case this.DATA_TYPES.NULL:
         return { value: null, newOffset: offset };
 
       case this.DATA_TYPES.BOOL:
-        return { value: buffer.readUInt8(offset) === 1, newOffset: offset + 1 };
+        const bool = buffer.readUInt8(offset);
+        if (bool > 1) {
+          throw this.decodeError(`Invalid A114 boolean: ${bool}`, offset, state);
+        }
+        return { value: bool === 1, newOffset: offset + 1 };
 
       case this.DATA_TYPES.INT8:
         return { value: buffer.readInt8(offset), newOffset: offset + 1 };
@@ -231,48 +1014,232 @@ export class A114Protocol {
       case this.DATA_TYPES.INT32:
         return { value: buffer.readInt32BE(offset), newOffset: offset + 4 };
 
+      case this.DATA_TYPES.INT64:
+        return { value: this.fromInt64(buffer.readBigInt64BE(offset)), newOffset: offset + 8 };
+
+      case this.DATA_TYPES.UINT64:
+        return { value: this.fromInt64(buffer.readBigUInt64BE(offset)), newOffset: offset + 8 };
+
+      case this.DATA_TYPES.BIGINT:
+        this.ensureAvailable(buffer, offset, 1, state);
+        const negative = buffer.readUInt8(offset) === 1;
+        const magBytes = this.readBytes(buffer, offset + 1, state, state.limits.maxStringLength);
+        const magnitude = magBytes.value.length > 0 ? BigInt(`0x${magBytes.value.toString('hex')}`) : 0n;
+        return { value: negative ? -magnitude : magnitude, newOffset: magBytes.newOffset };
+
+      case this.DATA_TYPES.FLOAT32:
+        return { value: buffer.readFloatBE(offset), newOffset: offset + 4 };
+
       case this.DATA_TYPES.FLOAT64:
         return { value: buffer.readDoubleBE(offset), newOffset: offset + 8 };
 
       case this.DATA_TYPES.STRING:
-        const strLen = buffer.readUInt32BE(offset);
-        offset += 4;
-        const str = buffer.subarray(offset, offset + strLen).toString('utf8');
-        return { value: str, newOffset: offset + strLen };
+        return this.decodeString(buffer, offset, state);
 
-      case this.DATA_TYPES.ARRAY:
-        const arrLen = buffer.readUInt32BE(offset);
-        offset += 4;
-        const arr = [];
-        
-        for (let i = 0; i < arrLen; i++) {
-          const result = this.decodeValue(buffer, offset);
-          arr.push(result.value);
+      case this.DATA_TYPES.BINARY:
+        const bin = this.readBytes(buffer, offset, state, Infinity);
+        return { value: Buffer.from(bin.value), newOffset: bin.newOffset };
+
+      case this.DATA_TYPES.TYPED_ARRAY:
+        return this.decodeTypedArray(buffer, offset, state);
+
+      case this.DATA_TYPES.DATE:
+        return { value: new Date(buffer.readDoubleBE(offset)), newOffset: offset + 8 };
+
+      case this.DATA_TYPES.MAP:
+        const mapLen = this.readLength(buffer, offset, state);
+        offset = mapLen.newOffset;
+        this.countElements(buffer, offset, mapLen.value, state, 2);
+        this.enterContainer(offset, state);
+        const map = new Map();
+
+        for (let i = 0; i < mapLen.value; i++) {
+          const keyResult = this.decodeValue(buffer, offset, state);
+          const valueResult = this.decodeValue(buffer, keyResult.newOffset, state);
+          map.set(keyResult.value, valueResult.value);
+          offset = valueResult.newOffset;
+        }
+
+        state.depth--;
+        return { value: map, newOffset: offset };
+
+      case this.DATA_TYPES.SET:
+        const setLen = this.readLength(buffer, offset, state);
+        offset = setLen.newOffset;
+        this.countElements(buffer, offset, setLen.value, state);
+        this.enterContainer(offset, state);
+        const set = new Set();
+
+        for (let i = 0; i < setLen.value; i++) {
+          const result = this.decodeValue(buffer, offset, state);
+          set.add(result.value);
           offset = result.newOffset;
         }
-        
-        return { value: arr, newOffset: offset };
 
-      case this.DATA_TYPES.OBJECT:
-        const objLen = buffer.readUInt32BE(offset);
-        offset += 4;
-        const obj: any = {};
-        
-        for (let i = 0; i < objLen; i++) {
-          const keyResult = this.decodeValue(buffer, offset);
-          offset = keyResult.newOffset;
-          
-          const valueResult = this.decodeValue(buffer, offset);
-          offset = valueResult.newOffset;
-          
-          obj[keyResult.value] = valueResult.value;
+        state.depth--;
+        return { value: set, newOffset: offset };
+
+      case this.DATA_TYPES.STRING_REF:
+      case this.DATA_TYPES.SHARED_REF:
+        const table = type === this.DATA_TYPES.STRING_REF ? state.strings : state.shared;
+        const ref = this.readVarint(buffer, offset, state);
+        if (ref.value >= table.length) {
+          throw this.decodeError(`Invalid A114 string reference: ${ref.value}`, offset, state);
         }
-        
-        return { value: obj, newOffset: offset };
+        return { value: table[ref.value], newOffset: ref.newOffset };
+
+      case this.DATA_TYPES.SCHEMA:
+        return this.decodeSchemaValue(buffer, offset, state);
+
+      case this.DATA_TYPES.ARRAY:
+        const arrLen = this.readLength(buffer, offset, state);
+        return this.decodeArray(buffer, arrLen.newOffset, arrLen.value, state);
+
+      case this.DATA_TYPES.OBJECT:
+        const objLen = this.readLength(buffer, offset, state);
+        return this.decodeObject(buffer, objLen.newOffset, objLen.value, state);
 
       default:
-        throw new Error(`Unknown A114 data type: 0x${type.toString(16)}`);
+        throw this.decodeError(`Unknown A114 data type: 0x${type.toString(16)}`, typeOffset, state);
+    }
+  }
+
+  /**
+   * Track container nesting against the depth limit
+   */
+  private enterContainer(offset: number, state: DecodeState): void {
+    if (++state.depth > state.limits.maxDepth) {
+      throw this.decodeError(`A114 data nested deeper than ${state.limits.maxDepth} levels`, offset, state);
+    }
+  }
+
+  /**
+   * Decode a length-prefixed UTF-8 string
+   */
+  private decodeString(buffer: Buffer, offset: number, state: DecodeState): { value: any, newOffset: number } {
+    const bytes = this.readBytes(buffer, offset, state, state.limits.maxStringLength);
+    return { value: bytes.value.toString('utf8'), newOffset: bytes.newOffset };
+  }
+
+  /**
+   * Decode a typed array, copying the bytes so the result is correctly aligned
+   */
+  private decodeTypedArray(buffer: Buffer, offset: number, state: DecodeState): { value: any, newOffset: number } {
+    this.ensureAvailable(buffer, offset, 1, state);
+    const kind = buffer.readUInt8(offset);
+    const TypedArray = this.TYPED_ARRAY_KINDS[kind];
+    if (!TypedArray) {
+      throw this.decodeError(`Unknown A114 typed array kind: 0x${kind.toString(16)}`, offset, state);
+    }
+
+    const data = this.readBytes(buffer, offset + 1, state, Infinity);
+    if (data.value.length % TypedArray.BYTES_PER_ELEMENT !== 0) {
+      throw this.decodeError(
+        `Invalid A114 typed array: ${data.value.length} bytes is not a whole number of elements`,
+        offset,
+        state
+      );
+    }
+
+    const bytes = new Uint8Array(data.value.length);
+    bytes.set(data.value);
+
+    return { value: new TypedArray(bytes.buffer), newOffset: data.newOffset };
+  }
+
+  /**
+   * Decode the items of an array of known length
+   */
+  private decodeArray(buffer: Buffer, offset: number, length: number, state: DecodeState): { value: any, newOffset: number } {
+    this.countElements(buffer, offset, length, state);
+    this.enterContainer(offset, state);
+    const arr = [];
+    
+    for (let i = 0; i < length; i++) {
+      const result = this.decodeValue(buffer, offset, state);
+      arr.push(result.value);
+      offset = result.newOffset;
+    }
+    
+    state.depth--;
+    return { value: arr, newOffset: offset };
+  }
+
+  /**
+   * Decode the key/value pairs of an object of known size.
+   * Keys are defined as own properties, so `__proto__` cannot replace the prototype.
+   */
+  private decodeObject(buffer: Buffer, offset: number, size: number, state: DecodeState): { value: any, newOffset: number } {
+    this.countElements(buffer, offset, size, state, 2);
+    this.enterContainer(offset, state);
+    const obj: any = {};
+    
+    for (let i = 0; i < size; i++) {
+      const keyOffset = offset;
+      const keyResult = this.decodeValue(buffer, offset, state);
+      offset = keyResult.newOffset;
+
+      if (typeof keyResult.value !== 'string') {
+        throw this.decodeError('Invalid A114 object key: not a string', keyOffset, state);
+      }
+      
+      const valueResult = this.decodeValue(buffer, offset, state);
+      offset = valueResult.newOffset;
+      
+      this.defineField(obj, keyResult.value, valueResult.value);
     }
+    
+    state.depth--;
+    return { value: obj, newOffset: offset };
+  }
+
+  /**
+   * Decode a SCHEMA value back into a named object
+   */
+  private decodeSchemaValue(buffer: Buffer, offset: number, state: DecodeState): { value: any, newOffset: number } {
+    const id = this.readVarint(buffer, offset, state);
+    const schema = this.schemas.get(id.value);
+    if (!schema) {
+      throw this.decodeError(`Unknown A114 schema: ${id.value}`, offset, state);
+    }
+    offset = id.newOffset;
+
+    const optionalFields = schema.fields.filter(field => field.optional);
+    const presenceSize = Math.ceil(optionalFields.length / 8);
+    this.ensureAvailable(buffer, offset, presenceSize, state);
+    const presence = buffer.subarray(offset, offset + presenceSize);
+    offset += presenceSize;
+
+    this.countElements(buffer, offset, schema.fields.length, state, 0);
+    this.enterContainer(offset, state);
+    const obj: any = {};
+
+    for (const field of schema.fields) {
+      if (field.optional) {
+        const bit = optionalFields.indexOf(field);
+        if (!(presence[bit >> 3] & (1 << (bit & 7)))) {
+          continue;
+        }
+      }
+
+      const valueOffset = offset;
+      const result = this.decodeValue(buffer, offset, state);
+      if (!this.matchesFieldType(result.value, field.type)) {
+        throw this.decodeError(`A114 schema ${schema.id}: field "${field.name}" is not of type ${field.type}`, valueOffset, state);
+      }
+      this.defineField(obj, field.name, result.value);
+      offset = result.newOffset;
+    }
+
+    state.depth--;
+    return { value: obj, newOffset: offset };
+  }
+
+  /**
+   * Set an own property, so `__proto__` cannot replace the prototype
+   */
+  private defineField(obj: any, key: string, value: any): void {
+    Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
   }
 
   /**
@@ -291,25 +1258,48 @@ export class A114Protocol {
   }
 
   /**
-   * Parse A114 command packet
+   * Create a command packet with an A114 header, so it can share a stream with data packets.
+   * Replies (ACK/NACK) carry the request id of the command they answer; 0 means no reply is expected.
    */
-  parseCommand(buffer: Buffer): { command: string, data?: any } {
-    if (buffer.length === 0) {
-      throw new Error('Empty A114 command packet');
+  frameCommand(command: string, data?: any, requestId: number = 0): Buffer {
+    const commandCode = this.COMMANDS[command as keyof typeof this.COMMANDS];
+    if (commandCode === undefined) {
+      throw new Error(`Unknown A114 command: ${command}`);
     }
 
+    const payload = Buffer.concat([
+      Buffer.from([commandCode]),
+      this.writeVarint(requestId),
+      data !== undefined ? this.encodePayload(data) : Buffer.alloc(0)
+    ]);
+    return Buffer.concat([this.createHeader(payload.length, this.FLAGS.COMMAND), payload]);
+  }
+
+  /**
+   * Parse A114 command packet
+   */
+  parseCommand(buffer: Buffer, options: A114DecodeOptions = {}): { command: string, data?: any } {
+    const state = this.createDecodeState(this.VERSION, { ...this.limits, ...options.limits }, 0);
+    return this.parseCommandAt(buffer, 1, state);
+  }
+
+  /**
+   * Parse the command code at the start of a command payload and the data at `dataOffset`
+   */
+  private parseCommandAt(buffer: Buffer, dataOffset: number, state: DecodeState): { command: string, data?: any } {
+    this.ensureAvailable(buffer, 0, 1, state);
     const commandCode = buffer.readUInt8(0);
     const commandName = Object.keys(this.COMMANDS).find(
       key => this.COMMANDS[key as keyof typeof this.COMMANDS] === commandCode
     );
 
     if (!commandName) {
-      throw new Error(`Unknown A114 command code: 0x${commandCode.toString(16)}`);
+      throw this.decodeError(`Unknown A114 command code: 0x${commandCode.toString(16)}`, 0, state);
     }
 
     let data = undefined;
-    if (buffer.length > 1) {
-      data = this.decodePayload(buffer.subarray(1));
+    if (buffer.length > dataOffset) {
+      data = this.decodePayload(buffer, state, dataOffset);
     }
 
     return { command: commandName, data };
@@ -323,7 +1313,8 @@ export class A114Protocol {
       version: this.VERSION,
       headerSize: this.HEADER_SIZE,
       supportedCommands: Object.keys(this.COMMANDS).length,
-      supportedDataTypes: Object.keys(this.DATA_TYPES).length
+      supportedDataTypes: Object.keys(this.DATA_TYPES).length,
+      registeredSchemas: this.schemas.size
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorageAdapter } from './FileStorageAdapter';
+import { CacheEntry, Priority } from '../types';
+
+/**
+ * A cache entry with the given key and value
+ */
+const entry = (key: string, value: any): CacheEntry => ({
+  key,
+  value,
+  timestamp: 1700000000000,
+  ttl: 60000,
+  accessCount: 0,
+  priority: Priority.HIGH
+});
+
+describe('FileStorageAdapter', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-log-'));
+    file = path.join(directory, 'cache.log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('replays the log on load', async () => {
+    const writer = new FileStorageAdapter(file);
+    await writer.apply([
+      { type: 'set', entry: entry('a', { payload: Buffer.from([1, 2]), big: 2n ** 70n }) },
+      { type: 'set', entry: entry('b', 'dropped') },
+      { type: 'delete', key: 'b' }
+    ]);
+    await writer.apply([{ type: 'set', entry: entry('c', [1, 'two']) }]);
+
+    expect(await new FileStorageAdapter(file).load()).toEqual([
+      entry('a', { payload: Buffer.from([1, 2]), big: 2n ** 70n }),
+      entry('c', [1, 'two'])
+    ]);
+  });
+
+  it('cuts off a record torn by a crash', async () => {
+    const writer = new FileStorageAdapter(file);
+    await writer.apply([{ type: 'set', entry: entry('a', 1) }, { type: 'set', entry: entry('b', 2) }]);
+    fs.truncateSync(file, fs.statSync(file).size - 3);
+
+    const reader = new FileStorageAdapter(file);
+    expect(await reader.load()).toEqual([entry('a', 1)]);
+
+    await reader.apply([{ type: 'set', entry: entry('c', 3) }]);
+    expect(await new FileStorageAdapter(file).load()).toEqual([entry('a', 1), entry('c', 3)]);
+  });
+
+  it('stops at a damaged record and keeps the log usable', async () => {
+    const writer = new FileStorageAdapter(file, { compactionThreshold: 3 });
+    await writer.apply([{ type: 'set', entry: entry('a', 'first') }]);
+    const good = fs.statSync(file).size;
+    await writer.apply([{ type: 'set', entry: entry('b', 'second') }, { type: 'set', entry: entry('c', 'third') }]);
+
+    const log = fs.readFileSync(file);
+    log[good + 12] ^= 0xFF;
+    fs.writeFileSync(file, log);
+
+    const reader = new FileStorageAdapter(file, { compactionThreshold: 3 });
+    expect(await reader.load()).toEqual([entry('a', 'first')]);
+    expect(fs.statSync(file).size).toBe(good);
+    expect(fs.readFileSync(`${file}.corrupt`)).toEqual(log.subarray(good));
+
+    // Appends and compaction continue from the last good record
+    await reader.apply([{ type: 'set', entry: entry('a', 'again') }]);
+    await reader.apply([{ type: 'set', entry: entry('a', 'final') }]);
+    expect(fs.statSync(file).size).toBe(good);
+    expect(await new FileStorageAdapter(file).load()).toEqual([entry('a', 'final')]);
+  });
+
+  it('compacts the log once most records are dead', async () => {
+    const adapter = new FileStorageAdapter(file, { compactionThreshold: 10 });
+    await adapter.load();
+
+    for (let i = 0; i < 9; i++) {
+      await adapter.apply([{ type: 'set', entry: entry('counter', i) }]);
+    }
+    const before = fs.statSync(file).size;
+    await adapter.apply([{ type: 'set', entry: entry('counter', 9) }]);
+
+    expect(fs.statSync(file).size).toBeLessThan(before);
+    expect(await new FileStorageAdapter(file).load()).toEqual([entry('counter', 9)]);
+  });
+});
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import { CacheEntry, FileStorageOptions, StorageAdapter, StorageOperation } from '../types';
+import { A114Protocol } from '../protocols/A114Protocol';
+
+/**
+ * Persists cache entries in an append-only log file.
+ *
+ * Every operation is appended as a checksummed A114 packet and the log is replayed
+ * on load. A torn record at the end of the log (a crash during a write) is cut off.
+ * A damaged record ends the replay as well: the log is cut at the last good record,
+ * and the unreadable rest is kept in `<path>.corrupt` for inspection.
+ * Once the log holds more than twice as many records as live entries, it is
+ * compacted: rewritten with only the live entries and swapped in atomically.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private path: string;
+  private protocol: A114Protocol;
+  private compactionThreshold: number;
+  private records = 0;
+  private live: Set<string> = new Set();
+
+  constructor(path: string, options: FileStorageOptions = {}, protocol: A114Protocol = new A114Protocol()) {
+    this.path = path;
+    this.compactionThreshold = options.compactionThreshold ?? 1000;
+    this.protocol = protocol;
+  }
+
+  /**
+   * Replay the log into the entries it describes
+   */
+  async load(): Promise<CacheEntry[]> {
+    const entries = await this.replay();
+    this.live = new Set(entries.keys());
+    return Array.from(entries.values());
+  }
+
+  /**
+   * Append operations to the log
+   */
+  async apply(operations: StorageOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const packets = await Promise.all(operations.map(operation => this.encode(operation)));
+    await fs.promises.appendFile(this.path, Buffer.concat(packets));
+
+    for (const operation of operations) {
+      if (operation.type === 'set') {
+        this.live.add(operation.entry.key);
+      } else if (operation.type === 'delete') {
+        this.live.delete(operation.key);
+      } else {
+        this.live.clear();
+      }
+    }
+    this.records += operations.length;
+
+    if (this.records >= this.compactionThreshold && this.records > this.live.size * 2) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the log with only the live entries
+   */
+  async compact(): Promise<void> {
+    const entries = Array.from((await this.replay()).values());
+    const packets = await Promise.all(entries.map(entry => this.encode({ type: 'set', entry })));
+
+    const temporary = `${this.path}.compact`;
+    await fs.promises.writeFile(temporary, Buffer.concat(packets));
+    await fs.promises.rename(temporary, this.path);
+
+    this.records = entries.length;
+    this.live = new Set(entries.map(entry => entry.key));
+  }
+
+  /**
+   * Release the log. Every apply() has completed its write, so there is nothing to flush.
+   */
+  async close(): Promise<void> {
+    this.live.clear();
+  }
+
+  /**
+   * Read the log and apply its operations in order
+   */
+  private async replay(): Promise<Map<string, CacheEntry>> {
+    let log: Buffer;
+    try {
+      log = await fs.promises.readFile(this.path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.records = 0;
+        return new Map();
+      }
+      throw error;
+    }
+
+    const entries = new Map<string, CacheEntry>();
+    let offset = 0;
+    let records = 0;
+
+    while (offset < log.length) {
+      const operation = await this.decodeAt(log, offset);
+      if (operation === 'corrupt') {
+        await fs.promises.writeFile(`${this.path}.corrupt`, log.subarray(offset));
+      }
+      if (operation === undefined || operation === 'corrupt') {
+        // Drop the unreadable rest so that appends continue a valid log
+        await fs.promises.truncate(this.path, offset);
+        break;
+      }
+
+      if (operation.value.type === 'set') {
+        entries.set(operation.value.entry.key, operation.value.entry);
+      } else if (operation.value.type === 'delete') {
+        entries.delete(operation.value.key);
+      } else {
+        entries.clear();
+      }
+      offset += operation.length;
+      records++;
+    }
+
+    this.records = records;
+    return entries;
+  }
+
+  /**
+   * Decode the record at an offset: undefined when the log ends before it is
+   * complete, 'corrupt' when it does not decode
+   */
+  private async decodeAt(log: Buffer, offset: number): Promise<{ value: StorageOperation, length: number } | 'corrupt' | undefined> {
+    if (log.length - offset < this.protocol.HEADER_SIZE) {
+      return undefined;
+    }
+
+    try {
+      const { packetLength } = this.protocol.readHeader(log.subarray(offset));
+      if (offset + packetLength > log.length) {
+        return undefined;
+      }
+      const value = await this.protocol.decode(log.subarray(offset, offset + packetLength));
+      return { value, length: packetLength };
+    } catch {
+      return 'corrupt';
+    }
+  }
+
+  /**
+   * One log record
+   */
+  private encode(operation: StorageOperation): Promise<Buffer> {
+    return this.protocol.encode(operation, { checksum: true });
+  }
+}
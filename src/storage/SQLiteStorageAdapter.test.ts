@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteStorageAdapter } from './SQLiteStorageAdapter';
+import { CacheEntry, Priority } from '../types';
+
+/**
+ * A cache entry with the given key and value
+ */
+const entry = (key: string, value: any): CacheEntry => ({
+  key,
+  value,
+  timestamp: 1700000000000,
+  ttl: 60000,
+  accessCount: 2,
+  priority: Priority.CRITICAL
+});
+
+describe('SQLiteStorageAdapter', () => {
+  it('persists entries in a SQLite database file', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-db-'));
+    const file = path.join(directory, 'cache.sqlite');
+
+    try {
+      const writer = new SQLiteStorageAdapter(file);
+      expect(await writer.load()).toEqual([]);
+      await writer.apply([
+        { type: 'set', entry: entry('a', { nested: new Map([['k', 1]]) }) },
+        { type: 'set', entry: entry('b', 'old') },
+        { type: 'set', entry: entry('b', 'new') },
+        { type: 'set', entry: entry('c', null) },
+        { type: 'delete', key: 'c' }
+      ]);
+      await writer.close();
+
+      expect(fs.readFileSync(file).subarray(0, 15).toString()).toBe('SQLite format 3');
+
+      const reader = new SQLiteStorageAdapter(file);
+      expect(await reader.load()).toEqual([entry('a', { nested: new Map([['k', 1]]) }), entry('b', 'new')]);
+
+      await reader.apply([{ type: 'clear' }]);
+      await reader.close();
+      expect(await new SQLiteStorageAdapter(file).load()).toEqual([]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import initSqlJs from 'sql.js';
+import { CacheEntry, StorageAdapter, StorageOperation } from '../types';
+import { A114Protocol } from '../protocols/A114Protocol';
+
+/**
+ * Persists cache entries in a SQLite database file.
+ *
+ * The database runs in memory (sql.js, no native module). Every batch is applied
+ * in a transaction, then the database is exported to a temporary file that
+ * replaces the original. Entries are stored as A114 packets keyed by cache key.
+ * Since each batch rewrites the whole file, this adapter suits write-behind mode.
+ */
+export class SQLiteStorageAdapter implements StorageAdapter {
+  private path: string;
+  private protocol: A114Protocol;
+  private database?: Promise<initSqlJs.Database>;
+
+  constructor(path: string, protocol: A114Protocol = new A114Protocol()) {
+    this.path = path;
+    this.protocol = protocol;
+  }
+
+  /**
+   * Open the database file (or create it) and read its entries
+   */
+  async load(): Promise<CacheEntry[]> {
+    const database = await this.open();
+    const entries: CacheEntry[] = [];
+
+    const statement = database.prepare('SELECT entry FROM cache_entries');
+    try {
+      while (statement.step()) {
+        const [packet] = statement.get();
+        entries.push(await this.protocol.decode(Buffer.from(packet as Uint8Array)));
+      }
+    } finally {
+      statement.free();
+    }
+
+    return entries;
+  }
+
+  /**
+   * Apply operations in one transaction and write the database file
+   */
+  async apply(operations: StorageOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const database = await this.open();
+    const packets = await Promise.all(operations.map(operation =>
+      operation.type === 'set' ? this.protocol.encode(operation.entry) : undefined));
+
+    database.run('BEGIN');
+    try {
+      operations.forEach((operation, index) => {
+        if (operation.type === 'set') {
+          database.run('INSERT OR REPLACE INTO cache_entries (key, entry) VALUES (?, ?)', [operation.entry.key, packets[index]!]);
+        } else if (operation.type === 'delete') {
+          database.run('DELETE FROM cache_entries WHERE key = ?', [operation.key]);
+        } else {
+          database.run('DELETE FROM cache_entries');
+        }
+      });
+      database.run('COMMIT');
+    } catch (error) {
+      database.run('ROLLBACK');
+      throw error;
+    }
+
+    const temporary = `${this.path}.tmp`;
+    await fs.promises.writeFile(temporary, database.export());
+    await fs.promises.rename(temporary, this.path);
+  }
+
+  /**
+   * Close the database
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = undefined;
+    (await database)?.close();
+  }
+
+  /**
+   * The open database, created from the file on first use
+   */
+  private open(): Promise<initSqlJs.Database> {
+    this.database ??= this.openFile();
+    return this.database;
+  }
+
+  /**
+   * Load the database file, or create an empty database when there is none
+   */
+  private async openFile(): Promise<initSqlJs.Database> {
+    const SQL = await initSqlJs();
+    let file: Buffer | undefined;
+    try {
+      file = await fs.promises.readFile(this.path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const database = new SQL.Database(file);
+    database.run('CREATE TABLE IF NOT EXISTS cache_entries (key TEXT PRIMARY KEY, entry BLOB NOT NULL)');
+    return database;
+  }
+}
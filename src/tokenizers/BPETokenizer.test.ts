@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BPETokenizer } from './BPETokenizer';
+
+describe('BPETokenizer', () => {
+  const tokenizer = new BPETokenizer();
+
+  it('needs fewer tokens than bytes for typical text', () => {
+    const text = 'Please analyze the provided data and return the result as a message.';
+
+    expect(tokenizer.countTokens(text)).toBeLessThan(Buffer.byteLength(text) / 2);
+  });
+
+  it('counts between one token per word and one per byte', () => {
+    fc.assert(
+      fc.property(fc.fullUnicodeString({ minLength: 1 }), text => {
+        const count = tokenizer.countTokens(text);
+
+        expect(count).toBe(tokenizer.encode(text).length);
+        expect(count).toBeGreaterThan(0);
+        expect(count).toBeLessThanOrEqual(Buffer.byteLength(text));
+      })
+    );
+  });
+
+  it('learns merges from a corpus', () => {
+    const trained = BPETokenizer.train(['low lower lowest', 'low low'], 3, 'tiny');
+
+    expect(trained.toJSON()).toEqual({
+      version: 1,
+      name: 'tiny',
+      merges: [['l', 'o'], ['lo', 'w'], [' ', 'low']]
+    });
+    expect(trained.encode(' low')).toEqual([258]);
+    expect(trained.countTokens('low lower')).toBe(4); // low, ' low', e, r
+  });
+
+  it('loads a vocabulary file', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'bpe-')), 'vocab.json');
+    fs.writeFileSync(file, JSON.stringify(BPETokenizer.train(['abab abab'], 2, 'file').toJSON()));
+
+    const loaded = BPETokenizer.fromFile(file);
+
+    expect(loaded.name).toBe('file');
+    expect(loaded.countTokens('abab')).toBe(1);
+  });
+
+  it('rejects unknown vocabulary versions', () => {
+    expect(() => new BPETokenizer({ version: 2, name: 'future', merges: [] })).toThrow('Unsupported BPE vocabulary version: 2');
+  });
+});
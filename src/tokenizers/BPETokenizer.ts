@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import { BPEVocabulary, Tokenizer } from '../types';
+import defaultVocabulary from './default-vocabulary.json';
+
+// Splits text into words, numbers, punctuation runs and whitespace before merging,
+// with a leading space kept on the following word as GPT-style tokenizers do
+const PRE_TOKENIZE = / ?[A-Za-z]+| ?[0-9]{1,3}| ?[^\sA-Za-z0-9]+|\s+(?!\S)|\s+/g;
+
+const CACHE_LIMIT = 10000;
+
+/**
+ * Offline byte-level BPE tokenizer.
+ * Text is split into UTF-8 bytes, which are merged pairwise following the
+ * ranked merges of a vocabulary. Ids 0-255 are the bytes; the symbol first
+ * produced by merge n gets id 256 + n.
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name: string;
+  private merges: [string, string][];
+  private ranks: Map<string, number> = new Map();
+  private symbolIds: Map<string, number> = new Map();
+  private cache: Map<string, number[]> = new Map();
+
+  constructor(vocabulary: BPEVocabulary = defaultVocabulary as BPEVocabulary) {
+    if (vocabulary.version !== 1) {
+      throw new Error(`Unsupported BPE vocabulary version: ${vocabulary.version}`);
+    }
+
+    this.name = vocabulary.name;
+    this.merges = vocabulary.merges;
+    this.merges.forEach(([left, right], rank) => {
+      this.ranks.set(`${left}\u0000${right}`, rank);
+      if (!this.symbolIds.has(left + right)) {
+        this.symbolIds.set(left + right, 256 + rank);
+      }
+    });
+  }
+
+  /**
+   * Load a vocabulary file written by toJSON()
+   */
+  static fromFile(path: string): BPETokenizer {
+    return new BPETokenizer(JSON.parse(fs.readFileSync(path, 'utf8')));
+  }
+
+  /**
+   * Learn `mergeCount` merges from a training corpus
+   */
+  static train(corpus: string[], mergeCount: number, name: string = 'bpe-custom'): BPETokenizer {
+    const wordCounts = new Map<string, number>();
+    for (const text of corpus) {
+      for (const word of text.match(PRE_TOKENIZE) ?? []) {
+        const bytes = Buffer.from(word, 'utf8').toString('latin1');
+        wordCounts.set(bytes, (wordCounts.get(bytes) ?? 0) + 1);
+      }
+    }
+
+    const words = Array.from(wordCounts, ([word, count]) => ({ symbols: Array.from(word), count }));
+    const merges: [string, string][] = [];
+
+    while (merges.length < mergeCount) {
+      const pairCounts = new Map<string, number>();
+      for (const { symbols, count } of words) {
+        for (let i = 0; i < symbols.length - 1; i++) {
+          const pair = `${symbols[i]}\u0000${symbols[i + 1]}`;
+          pairCounts.set(pair, (pairCounts.get(pair) ?? 0) + count);
+        }
+      }
+
+      let bestPair: string | undefined;
+      let bestCount = 1;
+      for (const [pair, count] of pairCounts) {
+        if (count > bestCount) {
+          bestPair = pair;
+          bestCount = count;
+        }
+      }
+      if (!bestPair) {
+        break;
+      }
+
+      const [left, right] = bestPair.split('\u0000');
+      merges.push([left, right]);
+      for (const word of words) {
+        word.symbols = BPETokenizer.mergePair(word.symbols, left, right);
+      }
+    }
+
+    return new BPETokenizer({ version: 1, name, merges });
+  }
+
+  /**
+   * Replace every adjacent (left, right) pair with the merged symbol
+   */
+  private static mergePair(symbols: string[], left: string, right: string): string[] {
+    const merged: string[] = [];
+    for (let i = 0; i < symbols.length; i++) {
+      if (symbols[i] === left && symbols[i + 1] === right) {
+        merged.push(left + right);
+        i++;
+      } else {
+        merged.push(symbols[i]);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Token ids of a text
+   */
+  encode(text: string): number[] {
+    const ids: number[] = [];
+    for (const word of text.match(PRE_TOKENIZE) ?? []) {
+      ids.push(...this.encodeWord(word));
+    }
+    return ids;
+  }
+
+  /**
+   * Number of tokens in a text
+   */
+  countTokens(text: string): number {
+    let count = 0;
+    for (const word of text.match(PRE_TOKENIZE) ?? []) {
+      count += this.encodeWord(word).length;
+    }
+    return count;
+  }
+
+  /**
+   * Vocabulary in the file format read by fromFile()
+   */
+  toJSON(): BPEVocabulary {
+    return { version: 1, name: this.name, merges: this.merges };
+  }
+
+  /**
+   * Apply the merges to a single pre-tokenized word, lowest rank first
+   */
+  private encodeWord(word: string): number[] {
+    const cached = this.cache.get(word);
+    if (cached) {
+      return cached;
+    }
+
+    let symbols = Array.from(Buffer.from(word, 'utf8').toString('latin1'));
+    while (symbols.length > 1) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const rank = this.ranks.get(`${symbols[i]}\u0000${symbols[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex === -1) {
+        break;
+      }
+
+      const [left, right] = this.merges[bestRank];
+      symbols = BPETokenizer.mergePair(symbols, left, right);
+    }
+
+    const ids = symbols.map(symbol => symbol.length === 1 ? symbol.charCodeAt(0) : this.symbolIds.get(symbol)!);
+
+    if (this.cache.size >= CACHE_LIMIT) {
+      this.cache.clear();
+    }
+    this.cache.set(word, ids);
+    return ids;
+  }
+}
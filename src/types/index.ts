@@ -11,7 +11,11 @@ export interface AIMessage {
   messageType: MessageType;
   priority: Priority;
   compressed: boolean;
-  encoding: EncodingType;
+  encoding: EncodingType | string; // Built-in encoding or the id of a registered codec
+  compressionMode?: CompressionMode;    // Apply token optimization in this mode
+  compression?: 'deflate' | 'brotli';   // Algorithm for COMPRESSED_JSON (default: 'deflate')
+  latencyBudget?: number;               // AUTO skips codecs averaging more milliseconds to encode
+  dictionary?: string;                  // Abbreviation dictionary id (default: negotiated per agent pair)
 }
 
 export interface CompactMessage {
@@ -23,7 +27,11 @@ export interface CompactMessage {
   mt: number; // messageType (numeric)
   p: number;  // priority (numeric)
   cp: boolean; // compressed
-  e: number;  // encoding (numeric)
+  e: number | string; // encoding (numeric, or a codec id)
+  cm?: number; // compressionMode (numeric)
+  z?: string;  // compression algorithm requested by the sender, for compressing codecs
+  d?: string;  // id of the abbreviation dictionary the content was optimized with
+  dh?: string; // content hash of that dictionary
 }
 
 export enum MessageType {
@@ -47,7 +55,13 @@ export enum EncodingType {
   JSON = 0,
   BINARY = 1,
   A114 = 2,
-  COMPRESSED_JSON = 3
+  COMPRESSED_JSON = 3,
+  AUTO = 4 // Smallest of the automatic encoding candidates, resolved when the message is sent
+}
+
+export enum CompressionMode {
+  LOSSY = 0,    // Abbreviations, lowercasing and whitespace collapsing
+  LOSSLESS = 1  // decompress(compress(x)) deep-equals x for any JSON value
 }
 
 export interface ProcessingStep {
@@ -89,6 +103,77 @@ export interface CacheEntry {
   priority: Priority;
 }
 
+export type StorageOperation =
+  | { type: 'set', entry: CacheEntry }
+  | { type: 'delete', key: string }
+  | { type: 'clear' };
+
+export interface StorageAdapter {
+  load(): Promise<CacheEntry[]>;                          // Persisted entries, read once on start-up
+  apply(operations: StorageOperation[]): Promise<void>;  // Persist a batch of changes, in order
+  close(): Promise<void>;
+}
+
+// Which entry of the lowest priority present is evicted first: least recently used,
+// least frequently used, or (priority-weighted) the lowest priority × use × recency weight
+export type EvictionPolicy = 'lru' | 'lfu' | 'priority-weighted';
+
+// Why an entry left the cache: it expired, made room, was deleted or cleared, or was dropped by optimize()
+export type CacheEvictionReason = 'ttl' | 'capacity' | 'manual' | 'optimize';
+
+// PriorityCache also reports entries replaced by a new value for the same key
+export type CacheRemovalReason = CacheEvictionReason | 'overwrite';
+
+// Payload of the 'set', 'hit' and 'miss' events of CacheManager
+export interface CacheEvent {
+  key: string;
+  entry?: CacheEntry;
+}
+
+// Payload of the 'evict' event of CacheManager
+export interface CacheEvictionEvent {
+  key: string;
+  entry: CacheEntry;
+  reason: CacheEvictionReason;
+}
+
+export interface PriorityCacheOptions {
+  maxEntries: number;
+  maxBytes?: number;                                // Limit on the summed entry sizes
+  quotas?: Partial<Record<Priority, number>>;       // Maximum entries per priority
+  policy?: EvictionPolicy;                          // Default: 'lru'
+  sizeOf?: (value: any) => number;                  // Entry size in bytes (default: utils/size sizeOf)
+  onRemove?: (key: string, entry: CacheEntry, reason: CacheRemovalReason) => void;
+}
+
+// Reported with the 'pressure' and 'pressureRelieved' events of CacheManager
+export interface CachePressure {
+  bytes: number;
+  maxBytes?: number;
+  entries: number;
+  maxEntries: number;
+  usage: number;                                    // Fullness of the tighter limit, 0..1
+}
+
+export interface CacheManagerOptions {
+  maxBytes?: number;
+  keyPrefixes?: string[];                           // Key prefixes with separate stats (default: ['msg_'])
+  pressureThreshold?: number;                       // Usage that starts back-pressure (default: 0.9)
+  priorityQuotas?: Partial<Record<Priority, number>>;
+  evictionPolicy?: EvictionPolicy;
+  storage?: StorageAdapter;
+  writeMode?: 'write-through' | 'write-behind'; // Default: 'write-through'
+  flushInterval?: number;                       // Write-behind delay in ms (default: 1000)
+}
+
+export interface FileStorageOptions {
+  compactionThreshold?: number; // Log records before compaction is considered (default: 1000)
+}
+
+export interface AIProcessingLayerOptions {
+  cache?: CacheManagerOptions;
+}
+
 export interface MemorySnapshot {
   id: string;
   timestamp: number;
@@ -97,10 +182,180 @@ export interface MemorySnapshot {
   importance: number;
 }
 
+export interface RecallOptions {
+  expand?: boolean; // Return a decoded AIMessage instead of the compact form
+}
+
+export type ContextItemKind = 'message' | 'learning' | 'memory';
+
+export interface ContextCandidate {
+  key: string;        // memoryContext key
+  kind: ContextItemKind;
+  label: string;      // Kept when the item is summarized, e.g. "[time] sender"
+  body: string;
+  priority: Priority;
+  timestamp: number;
+  importance: number; // Added to the priority when ranking, typically 0-1
+}
+
+export interface ContextBudgetOptions {
+  maxTokens: number;
+  importance?: (key: string, value: any) => number | undefined; // Override the default importance of a memory entry
+}
+
+export interface ContextItem {
+  key: string;
+  kind: ContextItemKind;
+  text: string;
+  tokens: number;
+  stage: 'full' | 'abbreviated' | 'summarized';
+}
+
+export interface ContextReport {
+  maxTokens: number;
+  originalTokens: number; // Tokens of all candidates before any compression
+  tokens: number;         // Tokens of the packed context
+  abbreviated: string[];  // Keys per stage
+  summarized: string[];
+  dropped: string[];
+}
+
+export interface BuiltContext {
+  text: string;       // Items one per line, oldest first
+  tokens: number;
+  items: ContextItem[];
+  report: ContextReport;
+}
+
+export type MessageHandler = (message: AIMessage) => void | Promise<void>;
+
+export interface A114SharedStringTable {
+  id: number;        // Hash of the strings, verified by the decoder
+  strings: string[];
+}
+
+export type A114FieldType =
+  | 'any' | 'boolean' | 'number' | 'bigint' | 'string'
+  | 'binary' | 'date' | 'array' | 'object' | 'map' | 'set';
+
+export interface A114SchemaField {
+  name: string;
+  type?: A114FieldType; // Checked on encode and decode (default: 'any')
+  optional?: boolean;   // May be missing or undefined
+}
+
+export interface A114Schema {
+  id: number;
+  fields: A114SchemaField[]; // Wire order of the values
+}
+
+export interface A114EncodeOptions {
+  schema?: number;                       // Encode the object positionally with a registered schema
+  internStrings?: boolean;               // Per-packet table for repeated strings (default: true)
+  sharedStrings?: A114SharedStringTable; // Session table both peers have agreed on
+  compression?: 'deflate' | 'brotli';    // Compress the payload when that makes it smaller
+  checksum?: boolean;                    // Append a CRC32 trailer
+  encryptionKey?: Buffer;                // 32-byte AES-256-GCM key
+}
+
+export interface A114DecodeLimits {
+  maxDepth?: number;            // Container nesting (default: 64)
+  maxElements?: number;         // Container elements per packet (default: 1,000,000)
+  maxStringLength?: number;     // Bytes per string or bigint (default: 16 MiB)
+  maxDecompressedSize?: number; // Bytes of an inflated payload (default: 64 MiB)
+}
+
+export interface A114DecodeOptions {
+  sharedStrings?: A114SharedStringTable;
+  encryptionKey?: Buffer;
+  limits?: A114DecodeLimits; // Overrides the protocol's limits for this call
+}
+
+export interface A114Header {
+  version: number;
+  flags: number;
+  payloadLength: number;
+  packetLength: number; // Header, payload and checksum trailer
+}
+
+export type A114Frame =
+  | { kind: 'data', value: any }
+  | { kind: 'command', command: string, requestId: number, data?: any };
+
+export type A114CommandHandler = (data: any) => any | Promise<any>;
+
+export interface A114CommandSessionOptions {
+  timeout?: number; // Milliseconds to wait for an ACK/NACK (default: 30000)
+}
+
+export interface A114FramerOptions extends A114DecodeOptions {
+  maxPacketSize?: number; // Larger packets are treated as framing errors (default: 16 MiB)
+}
+
+export interface Codec {
+  id: string; // Encoding id used in messages
+  encode(content: any, message: AIMessage): any | Promise<any>;
+  decode(data: any, compact: CompactMessage): any | Promise<any>;
+  estimateSize(content: any): number | Promise<number>; // Approximate encoded size in bytes
+}
+
+export interface Tokenizer {
+  name: string;
+  encode(text: string): number[];
+  countTokens(text: string): number;
+}
+
+export interface BPEVocabulary {
+  version: number;            // File format version (1)
+  name: string;
+  merges: [string, string][]; // Byte-string pairs (latin1), highest priority first
+}
+
+export interface TokenStats {
+  original: number; // Tokens of the content as sent
+  encoded: number;  // Tokens of the optimized, encoded content
+  saved: number;
+}
+
+export interface AbbreviationEntry {
+  full: string;
+  abbrev: string;
+  kind: 'word' | 'phrase' | 'key';
+  count?: number;       // Occurrences in the mined traffic
+  tokensSaved?: number; // Estimated tokens saved over that traffic
+}
+
+export interface AbbreviationDictionary {
+  format: 'abbreviations';
+  formatVersion: number; // Layout of this artifact (1)
+  id: string;            // name@version
+  hash: string;          // Content hash of the entries
+  name: string;
+  version: number;       // Revision of the dictionary, bump when the entries change
+  tokenizer: string;     // Tokenizer the savings were measured with
+  entries: AbbreviationEntry[];
+}
+
+// What to do when an agent pair shares no abbreviation dictionary:
+// send without abbreviations, or refuse to send
+export type DictionaryPolicy = 'fallback' | 'refuse';
+
+export interface AbbreviationMiningOptions {
+  maxEntries?: number; // Default: 100
+  minCount?: number;   // Occurrences a term needs (default: 3)
+  name?: string;       // Dictionary name (default: 'mined')
+  version?: number;    // Dictionary revision (default: 1)
+}
+
+export interface MessageSerializeOptions extends Omit<A114EncodeOptions, 'schema'> {
+  format?: 'buffer' | 'base64'; // Output type (default: 'buffer')
+}
+
 export interface AIAgent {
   id: string;
   name: string;
   capabilities: string[];
   memoryContext: Map<string, any>;
   lastActive: number;
+  dictionaries?: string[]; // Abbreviation dictionaries the agent reads, preferred first (default: ['default'])
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { AbbreviationMiner } from './AbbreviationMiner';
+import { TokenOptimizer } from './TokenOptimizer';
+import { CompressionMode } from '../types';
+
+const traffic = Array.from({ length: 20 }, (_, i) => ({
+  observation: `the temperature sensor reported anomalous readings near the northern perimeter ${i}`,
+  recommendation: 'recalibrate the temperature sensor',
+  confidence: 0.9
+}));
+
+describe('AbbreviationMiner', () => {
+  it('ranks frequent words, phrases and keys by the tokens they save', () => {
+    const entries = new AbbreviationMiner().train(traffic).propose();
+
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.map(entry => entry.tokensSaved)).toEqual(entries.map(entry => entry.tokensSaved).sort((a, b) => b! - a!));
+    expect(entries.every(entry => entry.tokensSaved! > 0 && entry.abbrev.length < entry.full.length)).toBe(true);
+    expect(entries.find(entry => entry.full === 'temperature sensor')).toMatchObject({ kind: 'phrase', count: 40 });
+    expect(entries.find(entry => entry.full === 'recommendation')).toMatchObject({ kind: 'key', count: 20 });
+  });
+
+  it('never proposes an abbreviation that collides with a reserved or observed term', () => {
+    fc.assert(fc.property(fc.array(fc.lorem({ maxCount: 12 }), { maxLength: 30 }), corpus => {
+      const reserved = ['data', 'dat', 'te'];
+      const miner = new AbbreviationMiner(undefined, reserved).train(corpus);
+      const words = new Set(corpus.flatMap(text => text.toLowerCase().match(/[a-z][a-z0-9]*/g) ?? []));
+      const abbrevs = miner.propose({ minCount: 2 }).map(entry => entry.abbrev);
+
+      expect(new Set(abbrevs).size).toBe(abbrevs.length);
+      expect(abbrevs.filter(abbrev => words.has(abbrev) || reserved.includes(abbrev))).toEqual([]);
+    }));
+  });
+
+  it('ignores keys that are not word-character terms', () => {
+    const traffic = Array.from({ length: 20 }, (_, i) => ({ 'total(': i, 'price.amount': i, 'quantity': i }));
+    const optimizer = new TokenOptimizer();
+    const dictionary = optimizer.createMiner().train(traffic).toDictionary({ name: 'orders', version: 1 });
+
+    expect(dictionary.entries.map(entry => entry.full)).toEqual(['quantity']);
+    optimizer.importDictionary(dictionary);
+    expect(optimizer.decompress(optimizer.compress('priceXamount and total(', CompressionMode.LOSSY), CompressionMode.LOSSY))
+      .toBe('pricexamount and total(');
+  });
+
+  it('skips rare terms and honours maxEntries', () => {
+    const miner = new AbbreviationMiner().train(traffic);
+
+    expect(miner.propose({ minCount: 41 })).toEqual([]);
+    expect(miner.propose({ maxEntries: 2 })).toHaveLength(2);
+  });
+
+  it('exports a versioned dictionary that a peer can load', () => {
+    const sender = new TokenOptimizer();
+    const receiver = new TokenOptimizer();
+    const dictionary = sender.createMiner().train(traffic).toDictionary({ name: 'sensors', version: 3 });
+
+    expect(dictionary).toMatchObject({ format: 'abbreviations', formatVersion: 1, name: 'sensors', version: 3, tokenizer: 'ai-processing-layer-bpe-v1' });
+
+    const transported = JSON.parse(JSON.stringify(dictionary));
+    sender.importDictionary(dictionary);
+    receiver.importDictionary(transported);
+
+    const compressed = sender.compress(traffic[0], CompressionMode.LOSSLESS);
+    expect(sender.countTokens(compressed)).toBeLessThan(sender.countTokens(traffic[0]));
+    expect(receiver.decompress(compressed, CompressionMode.LOSSLESS)).toEqual(traffic[0]);
+  });
+});
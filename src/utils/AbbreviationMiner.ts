@@ -0,0 +1,268 @@
+import { AbbreviationDictionary, AbbreviationEntry, AbbreviationMiningOptions, Tokenizer } from '../types';
+import { BPETokenizer } from '../tokenizers/BPETokenizer';
+import { dictionaryHash, dictionaryId, isDictionaryTerm } from './dictionary';
+
+const WORD = /[a-z][a-z0-9]*/g;
+const ABBREVIATION = /^[a-z][a-z0-9]*$/;
+const MIN_TERM_LENGTH = 4;
+const MAX_TERMS = 50000;
+
+/**
+ * Occurrences of a term, split by where it was seen
+ */
+interface TermCounts {
+  word: number;
+  phrase: number;
+  key: number;
+}
+
+/**
+ * Mines abbreviation dictionaries from message traffic.
+ *
+ * Words and two-word phrases are counted in string values (lowercased, as the
+ * lossy optimizer sees them) and keys in objects. Keys are only counted when
+ * lowercase, because dictionary entries are case-insensitive, and only when made
+ * of word characters (a key like `price.amount` cannot be matched as a word). Every frequent term
+ * gets the abbreviation with the fewest tokens that collides neither with a
+ * reserved entry nor with a term seen in the traffic, and terms are ranked by the
+ * tokens they save.
+ */
+export class AbbreviationMiner {
+  private tokenizer: Tokenizer;
+  private reserved: Set<string>;
+  private terms: Map<string, TermCounts> = new Map();
+  private observed = 0;
+
+  constructor(tokenizer: Tokenizer = new BPETokenizer(), reserved: Iterable<string> = []) {
+    this.tokenizer = tokenizer;
+    this.reserved = new Set(Array.from(reserved, term => term.toLowerCase()));
+  }
+
+  /**
+   * Count the terms of a message content
+   */
+  observe(value: any): void {
+    this.observed++;
+    this.walk(value, 0);
+  }
+
+  /**
+   * Count the terms of every sample in a training corpus
+   */
+  train(corpus: Iterable<any>): this {
+    for (const sample of corpus) {
+      this.observe(sample);
+    }
+    return this;
+  }
+
+  /**
+   * Abbreviation candidates ranked by the tokens they save, most first
+   */
+  propose(options: AbbreviationMiningOptions = {}): AbbreviationEntry[] {
+    const minCount = options.minCount ?? 3;
+    const maxEntries = options.maxEntries ?? 100;
+
+    // Best terms pick their abbreviation first
+    const ranked = Array.from(this.terms)
+      .map(([term, counts]) => ({ term, counts, total: counts.word + counts.phrase + counts.key }))
+      .filter(({ term, total }) => total >= minCount && !this.reserved.has(term))
+      .map(candidate => ({ ...candidate, saving: this.tokensSaved(candidate.term, candidate.term.slice(0, 1), candidate.counts) }))
+      .sort((a, b) => b.saving - a.saving || b.total - a.total || (a.term < b.term ? -1 : 1));
+
+    const taken = new Set<string>();
+    const entries: AbbreviationEntry[] = [];
+    // Occurrences of words already replaced as part of an accepted phrase
+    const inPhrases = new Map<string, number>();
+
+    for (const { term, counts: observed, total } of ranked) {
+      if (entries.length >= maxEntries) {
+        break;
+      }
+
+      // Overlapping phrases cannot both be applied to the same text
+      const words = term.split(' ');
+      if (words.length > 1 && words.some(word => inPhrases.has(word))) {
+        continue;
+      }
+      const counts = { ...observed, word: Math.max(0, observed.word - (inPhrases.get(term) ?? 0)) };
+
+      const abbrev = this.chooseAbbreviation(term, taken);
+      if (abbrev === undefined) {
+        continue;
+      }
+
+      const tokensSaved = this.tokensSaved(term, abbrev, counts);
+      if (tokensSaved <= 0) {
+        continue;
+      }
+
+      if (words.length > 1) {
+        words.forEach(word => inPhrases.set(word, (inPhrases.get(word) ?? 0) + counts.phrase));
+      }
+      taken.add(abbrev);
+      entries.push({ full: term, abbrev, kind: this.kindOf(counts), count: total, tokensSaved });
+    }
+
+    return entries.sort((a, b) => b.tokensSaved! - a.tokensSaved!);
+  }
+
+  /**
+   * Mined abbreviations as a versioned dictionary artifact
+   */
+  toDictionary(options: AbbreviationMiningOptions = {}): AbbreviationDictionary {
+    const name = options.name ?? 'mined';
+    const version = options.version ?? 1;
+    const entries = this.propose(options);
+
+    return {
+      format: 'abbreviations',
+      formatVersion: 1,
+      id: dictionaryId(name, version),
+      hash: dictionaryHash(entries),
+      name,
+      version,
+      tokenizer: this.tokenizer.name,
+      entries
+    };
+  }
+
+  /**
+   * Mining statistics
+   */
+  getStats(): any {
+    return {
+      observed: this.observed,
+      terms: this.terms.size,
+      reserved: this.reserved.size
+    };
+  }
+
+  /**
+   * Forget all counted terms
+   */
+  reset(): void {
+    this.terms.clear();
+    this.observed = 0;
+  }
+
+  /**
+   * Count the terms of a value and everything nested in it
+   */
+  private walk(value: any, depth: number): void {
+    if (depth > 64) {
+      return;
+    }
+
+    if (typeof value === 'string') {
+      const words = value.toLowerCase().match(WORD) ?? [];
+      words.forEach((word, index) => {
+        this.count(word, 'word');
+        if (index > 0) {
+          this.count(`${words[index - 1]} ${word}`, 'phrase');
+        }
+      });
+    } else if (Array.isArray(value)) {
+      value.forEach(item => this.walk(item, depth + 1));
+    } else if (value instanceof Map) {
+      value.forEach(item => this.walk(item, depth + 1));
+    } else if (typeof value === 'object' && value !== null && !Buffer.isBuffer(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (key === key.toLowerCase() && isDictionaryTerm(key)) {
+          this.count(key, 'key');
+        }
+        this.walk(item, depth + 1);
+      }
+    }
+  }
+
+  /**
+   * Record one occurrence of a term
+   */
+  private count(term: string, kind: keyof TermCounts): void {
+    let counts = this.terms.get(term);
+    if (!counts) {
+      if (this.terms.size >= MAX_TERMS) {
+        this.prune();
+      }
+      counts = { word: 0, phrase: 0, key: 0 };
+      this.terms.set(term, counts);
+    }
+    counts[kind]++;
+  }
+
+  /**
+   * Drop the terms seen only once to bound memory
+   */
+  private prune(): void {
+    for (const [term, counts] of this.terms) {
+      if (counts.word + counts.phrase + counts.key <= 1) {
+        this.terms.delete(term);
+      }
+    }
+  }
+
+  /**
+   * Abbreviation of a term with the fewest tokens that collides with nothing
+   */
+  private chooseAbbreviation(term: string, taken: Set<string>): string | undefined {
+    let best: string | undefined;
+    let bestTokens = Infinity;
+
+    for (const candidate of this.candidates(term)) {
+      if (candidate.length >= term.length || !ABBREVIATION.test(candidate) ||
+          taken.has(candidate) || this.reserved.has(candidate) || this.terms.has(candidate)) {
+        continue;
+      }
+
+      const tokens = this.tokenizer.countTokens(` ${candidate}`);
+      if (tokens < bestTokens || (tokens === bestTokens && candidate.length < best!.length)) {
+        best = candidate;
+        bestTokens = tokens;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Abbreviation candidates: initials of multi-part terms, prefixes and consonant skeletons
+   */
+  private candidates(term: string): string[] {
+    const parts = term.split(/[\s_]+/).filter(part => part.length > 0);
+    if (parts.length > 1) {
+      const initials = parts.map(part => part[0]).join('');
+      return [initials, ...parts.map(part => `${initials}${part.slice(1, 3)}`), parts.map(part => part.slice(0, 2)).join('')];
+    }
+
+    if (term.length < MIN_TERM_LENGTH) {
+      return [];
+    }
+
+    const skeleton = term[0] + term.slice(1).replace(/[aeiou]/g, '').replace(/(.)\1+/g, '$1');
+    const candidates: string[] = [];
+    for (let length = 2; length <= Math.min(term.length - 1, 5); length++) {
+      candidates.push(term.slice(0, length), skeleton.slice(0, length));
+    }
+    return candidates;
+  }
+
+  /**
+   * Tokens saved over the observed traffic by abbreviating a term
+   */
+  private tokensSaved(term: string, abbrev: string, counts: TermCounts): number {
+    const inText = this.tokenizer.countTokens(` ${term}`) - this.tokenizer.countTokens(` ${abbrev}`);
+    const asKey = this.tokenizer.countTokens(`"${term}"`) - this.tokenizer.countTokens(`"${abbrev}"`);
+    return inText * (counts.word + counts.phrase) + asKey * counts.key;
+  }
+
+  /**
+   * Where a term was mostly seen
+   */
+  private kindOf(counts: TermCounts): AbbreviationEntry['kind'] {
+    if (counts.key >= counts.word && counts.key >= counts.phrase) {
+      return 'key';
+    }
+    return counts.phrase > counts.word ? 'phrase' : 'word';
+  }
+}
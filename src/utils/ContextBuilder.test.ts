@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { ContextBuilder } from './ContextBuilder';
+import { TokenOptimizer } from './TokenOptimizer';
+import { ContextCandidate, Priority } from '../types';
+
+const optimizer = new TokenOptimizer();
+const builder = new ContextBuilder(optimizer);
+
+/**
+ * A candidate with defaults for the fields a test does not care about
+ */
+const candidate = (key: string, body: string, extra: Partial<ContextCandidate> = {}): ContextCandidate => ({
+  key,
+  kind: 'message',
+  label: key,
+  body,
+  priority: Priority.NORMAL,
+  timestamp: 0,
+  importance: 0,
+  ...extra
+});
+
+const history = [
+  candidate('old', 'The configuration parameter of the processing algorithm was changed by the operator yesterday', { timestamp: 1 }),
+  candidate('recent', 'The configuration parameter of the processing algorithm was reverted by the operator today', { timestamp: 2 }),
+  candidate('critical', 'Never delete the production database', { timestamp: 0, priority: Priority.CRITICAL })
+];
+
+describe('ContextBuilder', () => {
+  it('keeps everything, oldest first, when the budget allows', () => {
+    const context = builder.build(history, { maxTokens: 1000 });
+
+    expect(context.items.map(item => [item.key, item.stage])).toEqual([['critical', 'full'], ['old', 'full'], ['recent', 'full']]);
+    expect(context.text.split('\n')[0]).toBe('critical: Never delete the production database');
+    expect(context.tokens).toBe(optimizer.countTokens(context.text));
+    expect(context.report).toMatchObject({ originalTokens: context.tokens, abbreviated: [], summarized: [], dropped: [] });
+  });
+
+  it('compresses the least valuable entries first', () => {
+    const full = builder.build(history, { maxTokens: 1000 }).tokens;
+    const context = builder.build(history, { maxTokens: full - 10 });
+
+    expect(context.tokens).toBeLessThanOrEqual(full - 10);
+    expect(context.items.find(item => item.key === 'critical')!.stage).toBe('full');
+    expect(context.report.dropped).toEqual([]);
+    expect([...context.report.abbreviated, ...context.report.summarized]).toContain('old');
+  });
+
+  it('summarizes before dropping', () => {
+    const context = builder.build(history, { maxTokens: 50 });
+    const old = context.items.find(item => item.key === 'old');
+
+    expect(context.tokens).toBe(50);
+    expect(context.report).toMatchObject({ summarized: ['old', 'recent'], dropped: [] });
+    expect(old?.text).toBe('old: The configuration parameter of the [...]');
+  });
+
+  it('drops entries when summaries are not enough', () => {
+    const context = builder.build(history, { maxTokens: 20 });
+
+    expect(context.text).toBe('critical: Never delete the production database');
+    expect(context.report.dropped).toEqual(['old', 'recent']);
+  });
+
+  it('never exceeds the budget', () => {
+    fc.assert(fc.property(
+      fc.array(fc.record({ body: fc.lorem({ maxCount: 40 }), priority: fc.constantFrom(...[0, 1, 2, 3]), timestamp: fc.nat() }), { maxLength: 10 }),
+      fc.nat({ max: 200 }),
+      (entries, maxTokens) => {
+        const context = builder.build(entries.map((entry, i) => candidate(`k${i}`, entry.body, entry)), { maxTokens });
+
+        expect(context.tokens).toBeLessThanOrEqual(maxTokens);
+        expect(context.items.length + context.report.dropped.length).toBe(entries.length);
+      }
+    ), { numRuns: 50 });
+  });
+
+  it('rejects invalid budgets', () => {
+    expect(() => builder.build(history, { maxTokens: -1 })).toThrow('Invalid token budget: -1');
+  });
+});
@@ -0,0 +1,142 @@
+import { BuiltContext, ContextBudgetOptions, ContextCandidate, ContextItem } from '../types';
+import { TokenOptimizer } from './TokenOptimizer';
+
+const SUMMARY_WORDS = 5;
+
+/**
+ * A candidate while it is being packed
+ */
+interface PackedEntry {
+  candidate: ContextCandidate;
+  score: number;
+  text: string;
+  tokens: number;
+  stage: ContextItem['stage'] | 'dropped';
+}
+
+/**
+ * Packs memory entries into a token budget.
+ *
+ * Candidates are ranked by priority, importance and recency. While the context
+ * is over budget, the lowest ranked entries are first abbreviated, then replaced
+ * by a summary placeholder and finally dropped; each step runs over all entries
+ * before the next one starts. Lines are separated by a newline, which is one token.
+ */
+export class ContextBuilder {
+  private optimizer: TokenOptimizer;
+
+  constructor(optimizer: TokenOptimizer = new TokenOptimizer()) {
+    this.optimizer = optimizer;
+  }
+
+  /**
+   * Pack candidates into at most `options.maxTokens` tokens
+   */
+  build(candidates: ContextCandidate[], options: ContextBudgetOptions): BuiltContext {
+    if (!Number.isInteger(options.maxTokens) || options.maxTokens < 0) {
+      throw new Error(`Invalid token budget: ${options.maxTokens}`);
+    }
+
+    const entries = this.rank(candidates);
+    // The last line has no newline, so one token of the total is not sent
+    let total = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+    const budget = options.maxTokens + 1;
+
+    const steps: Array<(entry: PackedEntry) => Pick<PackedEntry, 'text' | 'stage'>> = [
+      entry => ({ text: this.line(entry.candidate.label, this.optimizer.abbreviate(entry.candidate.body)), stage: 'abbreviated' }),
+      entry => ({ text: this.summarize(entry), stage: 'summarized' }),
+      () => ({ text: '', stage: 'dropped' })
+    ];
+
+    for (const step of steps) {
+      for (const entry of entries) {
+        if (total <= budget) {
+          break;
+        }
+        if (entry.stage === 'dropped') {
+          continue;
+        }
+
+        const next = step(entry);
+        const tokens = next.stage === 'dropped' ? 0 : this.cost(next.text);
+        if (tokens < entry.tokens) {
+          total -= entry.tokens - tokens;
+          Object.assign(entry, next, { tokens });
+        }
+      }
+    }
+
+    const kept = entries
+      .filter(entry => entry.stage !== 'dropped')
+      .sort((a, b) => a.candidate.timestamp - b.candidate.timestamp);
+    const text = kept.map(entry => entry.text).join('\n');
+    const tokens = this.optimizer.countTokens(text);
+    const keys = (stage: PackedEntry['stage']) =>
+      entries.filter(entry => entry.stage === stage).map(entry => entry.candidate.key);
+
+    return {
+      text,
+      tokens,
+      items: kept.map(({ candidate, text, tokens, stage }) => ({
+        key: candidate.key,
+        kind: candidate.kind,
+        text,
+        tokens: tokens - 1,
+        stage: stage as ContextItem['stage']
+      })),
+      report: {
+        maxTokens: options.maxTokens,
+        originalTokens: this.optimizer.countTokens(candidates.map(candidate => this.line(candidate.label, candidate.body)).join('\n')),
+        tokens,
+        abbreviated: keys('abbreviated'),
+        summarized: keys('summarized'),
+        dropped: keys('dropped')
+      }
+    };
+  }
+
+  /**
+   * Entries ordered from least to most valuable. Recency adds up to 1 to the
+   * score of the newest entry.
+   */
+  private rank(candidates: ContextCandidate[]): PackedEntry[] {
+    const byAge = [...candidates].sort((a, b) => a.timestamp - b.timestamp);
+    const recency = new Map(byAge.map((candidate, index) => [candidate, byAge.length > 1 ? index / (byAge.length - 1) : 1]));
+
+    return candidates
+      .map(candidate => {
+        const text = this.line(candidate.label, candidate.body);
+        return {
+          candidate,
+          score: candidate.priority + candidate.importance + recency.get(candidate)!,
+          text,
+          tokens: this.cost(text),
+          stage: 'full' as const
+        };
+      })
+      .sort((a, b) => a.score - b.score);
+  }
+
+  /**
+   * Placeholder keeping the label and the first words of an entry
+   */
+  private summarize(entry: PackedEntry): string {
+    const words = entry.candidate.body.split(/\s+/).filter(word => word.length > 0);
+    const start = words.slice(0, SUMMARY_WORDS).join(' ');
+    return this.line(entry.candidate.label, words.length > SUMMARY_WORDS ? `${start} [...]` : start);
+  }
+
+  /**
+   * One context line
+   */
+  private line(label: string, body: string): string {
+    return `${label}: ${body}`;
+  }
+
+  /**
+   * Tokens of a line and its newline
+   */
+  private cost(text: string): number {
+    return this.optimizer.countTokens(text) + 1;
+  }
+}
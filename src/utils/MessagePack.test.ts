@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { MessagePack } from './MessagePack';
+
+/**
+ * Values that decode to an equal value
+ */
+const messagePackValue = fc.letrec(tie => ({
+  value: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    fc.constant(null),
+    fc.boolean(),
+    fc.integer(),
+    fc.maxSafeInteger(),
+    fc.double(),
+    fc.fullUnicodeString(),
+    fc.uint8Array({ maxLength: 16 }).map(bytes => Buffer.from(bytes)),
+    fc.date({ noInvalidDate: true }),
+    fc.array(tie('value'), { maxLength: 5 }),
+    fc.dictionary(fc.fullUnicodeString({ maxLength: 10 }), tie('value'), { maxKeys: 5 })
+  )
+})).value;
+
+describe('MessagePack', () => {
+  const msgpack = new MessagePack();
+
+  it('round trips supported values', () => {
+    fc.assert(
+      fc.property(messagePackValue, value => {
+        expect(msgpack.decode(msgpack.encode(value))).toEqual(value);
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  it('uses the standard MessagePack formats', () => {
+    expect(msgpack.encode({ compact: true, schema: 0 }).toString('hex')).toBe('82a7636f6d70616374c3a6736368656d6100');
+    expect(msgpack.encode([-1, 200, -200, 1.5]).toString('hex')).toBe('94ffccc8d1ff38ca3fc00000');
+    expect(msgpack.encode(2n ** 63n).toString('hex')).toBe('cf8000000000000000');
+  });
+
+  it('decodes maps with non-string keys to Map', () => {
+    expect(msgpack.decode(msgpack.encode(new Map([[1, 'a']])))).toEqual(new Map([[1, 'a']]));
+  });
+
+  it('refuses Sets instead of encoding them as empty maps', () => {
+    expect(() => msgpack.encode(new Set([1, 2]))).toThrow('Cannot encode Set as MessagePack');
+    expect(() => msgpack.encode({ tags: new Set(['a']) })).toThrow('Cannot encode Set as MessagePack');
+  });
+
+  it('rejects truncated data', () => {
+    expect(() => msgpack.decode(Buffer.from('92a16101', 'hex').subarray(0, 3))).toThrow('Unexpected end of MessagePack data');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * MessagePack encoder/decoder for BINARY message content.
+ * Covers nil, booleans, integers up to 64 bits, floats, strings, binary
+ * (Buffers and typed array bytes, decoded as Buffer), arrays, maps (plain
+ * objects and Map) and the timestamp extension (Date). Sets are rejected.
+ */
+export class MessagePack {
+  private static readonly TIMESTAMP_EXT = -1;
+
+  /**
+   * Encode a value to MessagePack bytes
+   */
+  encode(value: any): Buffer {
+    const chunks: Buffer[] = [];
+    this.encodeValue(value, chunks);
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Decode MessagePack bytes holding exactly one value
+   */
+  decode(buffer: Buffer): any {
+    const result = this.decodeValue(buffer, 0);
+    if (result.newOffset !== buffer.length) {
+      throw new Error(`Invalid MessagePack data: ${buffer.length - result.newOffset} trailing bytes`);
+    }
+    return result.value;
+  }
+
+  /**
+   * Encode a single value
+   */
+  private encodeValue(value: any, chunks: Buffer[]): void {
+    if (value === null || value === undefined) {
+      chunks.push(Buffer.from([0xc0]));
+    } else if (typeof value === 'boolean') {
+      chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+    } else if (typeof value === 'number') {
+      this.encodeNumber(value, chunks);
+    } else if (typeof value === 'bigint') {
+      this.encodeBigInt(value, chunks);
+    } else if (typeof value === 'string') {
+      const strBuf = Buffer.from(value, 'utf8');
+      chunks.push(this.head(strBuf.length, 0xa0, 31, [0xd9, 0xda, 0xdb]), strBuf);
+    } else if (ArrayBuffer.isView(value)) {
+      const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+      chunks.push(this.head(bytes.length, -1, -1, [0xc4, 0xc5, 0xc6]), bytes);
+    } else if (value instanceof Date) {
+      this.encodeDate(value, chunks);
+    } else if (Array.isArray(value)) {
+      chunks.push(this.head(value.length, 0x90, 15, [0xdc, 0xdc, 0xdd]));
+      value.forEach(item => this.encodeValue(item, chunks));
+    } else if (value instanceof Map) {
+      chunks.push(this.head(value.size, 0x80, 15, [0xde, 0xde, 0xdf]));
+      value.forEach((item, key) => {
+        this.encodeValue(key, chunks);
+        this.encodeValue(item, chunks);
+      });
+    } else if (value instanceof Set) {
+      // MessagePack has no set type; an array would not decode back to a Set
+      throw new Error('Cannot encode Set as MessagePack');
+    } else if (typeof value === 'object') {
+      const keys = Object.keys(value);
+      chunks.push(this.head(keys.length, 0x80, 15, [0xde, 0xde, 0xdf]));
+      keys.forEach(key => {
+        this.encodeValue(key, chunks);
+        this.encodeValue(value[key], chunks);
+      });
+    } else {
+      throw new Error(`Cannot encode ${typeof value} as MessagePack`);
+    }
+  }
+
+  /**
+   * Type byte for a length: fix format when it fits, else the 8/16/32-bit format
+   */
+  private head(length: number, fixBase: number, fixMax: number, formats: number[]): Buffer {
+    if (length <= fixMax) {
+      return Buffer.from([fixBase + length]);
+    }
+    if (length <= 0xff && formats[0] !== formats[1]) {
+      return Buffer.from([formats[0], length]);
+    }
+    if (length <= 0xffff) {
+      const buf = Buffer.alloc(3);
+      buf.writeUInt8(formats[1], 0);
+      buf.writeUInt16BE(length, 1);
+      return buf;
+    }
+    const buf = Buffer.alloc(5);
+    buf.writeUInt8(formats[2], 0);
+    buf.writeUInt32BE(length, 1);
+    return buf;
+  }
+
+  /**
+   * Encode a number as the smallest integer format, float32 when exact, else float64
+   */
+  private encodeNumber(value: number, chunks: Buffer[]): void {
+    if (!Number.isSafeInteger(value) || Object.is(value, -0)) {
+      const isFloat32 = Object.is(Math.fround(value), value);
+      const buf = Buffer.alloc(isFloat32 ? 5 : 9);
+      buf.writeUInt8(isFloat32 ? 0xca : 0xcb, 0);
+      isFloat32 ? buf.writeFloatBE(value, 1) : buf.writeDoubleBE(value, 1);
+      chunks.push(buf);
+    } else if (value >= 0 && value <= 0x7f) {
+      chunks.push(Buffer.from([value]));
+    } else if (value < 0 && value >= -32) {
+      chunks.push(Buffer.from([value & 0xff]));
+    } else if (value >= -128 && value <= 0xff) {
+      chunks.push(Buffer.from([value < 0 ? 0xd0 : 0xcc, value & 0xff]));
+    } else if (value >= -32768 && value <= 0xffff) {
+      const buf = Buffer.alloc(3);
+      buf.writeUInt8(value < 0 ? 0xd1 : 0xcd, 0);
+      value < 0 ? buf.writeInt16BE(value, 1) : buf.writeUInt16BE(value, 1);
+      chunks.push(buf);
+    } else if (value >= -2147483648 && value <= 0xffffffff) {
+      const buf = Buffer.alloc(5);
+      buf.writeUInt8(value < 0 ? 0xd2 : 0xce, 0);
+      value < 0 ? buf.writeInt32BE(value, 1) : buf.writeUInt32BE(value, 1);
+      chunks.push(buf);
+    } else {
+      this.encodeBigInt(BigInt(value), chunks);
+    }
+  }
+
+  /**
+   * Encode a bigint as int64/uint64; larger values do not fit MessagePack
+   */
+  private encodeBigInt(value: bigint, chunks: Buffer[]): void {
+    const buf = Buffer.alloc(9);
+    if (value >= -(2n ** 63n) && value < 0n) {
+      buf.writeUInt8(0xd3, 0);
+      buf.writeBigInt64BE(value, 1);
+    } else if (value >= 0n && value < 2n ** 64n) {
+      buf.writeUInt8(0xcf, 0);
+      buf.writeBigUInt64BE(value, 1);
+    } else {
+      throw new Error(`Bigint out of MessagePack range: ${value}`);
+    }
+    chunks.push(buf);
+  }
+
+  /**
+   * Encode a Date with the timestamp 96 extension (nanoseconds + int64 seconds)
+   */
+  private encodeDate(value: Date, chunks: Buffer[]): void {
+    const millis = value.getTime();
+    const seconds = Math.floor(millis / 1000);
+    const buf = Buffer.alloc(15);
+    buf.writeUInt8(0xc7, 0);
+    buf.writeUInt8(12, 1);
+    buf.writeInt8(MessagePack.TIMESTAMP_EXT, 2);
+    buf.writeUInt32BE((millis - seconds * 1000) * 1e6, 3);
+    buf.writeBigInt64BE(BigInt(seconds), 7);
+    chunks.push(buf);
+  }
+
+  /**
+   * Decode a single value
+   */
+  private decodeValue(buffer: Buffer, offset: number): { value: any, newOffset: number } {
+    const type = this.read(buffer, offset, 1).readUInt8(offset++);
+
+    if (type <= 0x7f) {
+      return { value: type, newOffset: offset };
+    }
+    if (type >= 0xe0) {
+      return { value: type - 0x100, newOffset: offset };
+    }
+    if (type >= 0xa0 && type <= 0xbf) {
+      return this.decodeString(buffer, offset, type - 0xa0);
+    }
+    if (type >= 0x90 && type <= 0x9f) {
+      return this.decodeArray(buffer, offset, type - 0x90);
+    }
+    if (type >= 0x80 && type <= 0x8f) {
+      return this.decodeMap(buffer, offset, type - 0x80);
+    }
+
+    switch (type) {
+      case 0xc0: return { value: null, newOffset: offset };
+      case 0xc2: return { value: false, newOffset: offset };
+      case 0xc3: return { value: true, newOffset: offset };
+      case 0xc4: return this.decodeBinary(buffer, offset + 1, this.read(buffer, offset, 1).readUInt8(offset));
+      case 0xc5: return this.decodeBinary(buffer, offset + 2, this.read(buffer, offset, 2).readUInt16BE(offset));
+      case 0xc6: return this.decodeBinary(buffer, offset + 4, this.read(buffer, offset, 4).readUInt32BE(offset));
+      case 0xc7: return this.decodeExt(buffer, offset + 2, this.read(buffer, offset, 2).readUInt8(offset));
+      case 0xca: return { value: this.read(buffer, offset, 4).readFloatBE(offset), newOffset: offset + 4 };
+      case 0xcb: return { value: this.read(buffer, offset, 8).readDoubleBE(offset), newOffset: offset + 8 };
+      case 0xcc: return { value: this.read(buffer, offset, 1).readUInt8(offset), newOffset: offset + 1 };
+      case 0xcd: return { value: this.read(buffer, offset, 2).readUInt16BE(offset), newOffset: offset + 2 };
+      case 0xce: return { value: this.read(buffer, offset, 4).readUInt32BE(offset), newOffset: offset + 4 };
+      case 0xcf: return { value: this.fromInt64(this.read(buffer, offset, 8).readBigUInt64BE(offset)), newOffset: offset + 8 };
+      case 0xd0: return { value: this.read(buffer, offset, 1).readInt8(offset), newOffset: offset + 1 };
+      case 0xd1: return { value: this.read(buffer, offset, 2).readInt16BE(offset), newOffset: offset + 2 };
+      case 0xd2: return { value: this.read(buffer, offset, 4).readInt32BE(offset), newOffset: offset + 4 };
+      case 0xd3: return { value: this.fromInt64(this.read(buffer, offset, 8).readBigInt64BE(offset)), newOffset: offset + 8 };
+      case 0xd9: return this.decodeString(buffer, offset + 1, this.read(buffer, offset, 1).readUInt8(offset));
+      case 0xda: return this.decodeString(buffer, offset + 2, this.read(buffer, offset, 2).readUInt16BE(offset));
+      case 0xdb: return this.decodeString(buffer, offset + 4, this.read(buffer, offset, 4).readUInt32BE(offset));
+      case 0xdc: return this.decodeArray(buffer, offset + 2, this.read(buffer, offset, 2).readUInt16BE(offset));
+      case 0xdd: return this.decodeArray(buffer, offset + 4, this.read(buffer, offset, 4).readUInt32BE(offset));
+      case 0xde: return this.decodeMap(buffer, offset + 2, this.read(buffer, offset, 2).readUInt16BE(offset));
+      case 0xdf: return this.decodeMap(buffer, offset + 4, this.read(buffer, offset, 4).readUInt32BE(offset));
+      default:
+        throw new Error(`Unsupported MessagePack type: 0x${type.toString(16)}`);
+    }
+  }
+
+  /**
+   * Bounds check before reading `bytes` bytes at `offset`
+   */
+  private read(buffer: Buffer, offset: number, bytes: number): Buffer {
+    if (bytes > buffer.length - offset) {
+      throw new Error(`Unexpected end of MessagePack data at byte ${offset}`);
+    }
+    return buffer;
+  }
+
+  /**
+   * Convert a 64-bit integer to a number when that is exact
+   */
+  private fromInt64(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+
+  /**
+   * Decode a UTF-8 string of known byte length
+   */
+  private decodeString(buffer: Buffer, offset: number, length: number): { value: any, newOffset: number } {
+    this.read(buffer, offset, length);
+    return { value: buffer.toString('utf8', offset, offset + length), newOffset: offset + length };
+  }
+
+  /**
+   * Decode binary data of known length into a Buffer copy
+   */
+  private decodeBinary(buffer: Buffer, offset: number, length: number): { value: any, newOffset: number } {
+    this.read(buffer, offset, length);
+    return { value: Buffer.from(buffer.subarray(offset, offset + length)), newOffset: offset + length };
+  }
+
+  /**
+   * Decode an ext 8 value; only the timestamp extension is supported
+   */
+  private decodeExt(buffer: Buffer, offset: number, length: number): { value: any, newOffset: number } {
+    const extType = buffer.readInt8(offset - 1);
+    this.read(buffer, offset, length);
+    if (extType !== MessagePack.TIMESTAMP_EXT || length !== 12) {
+      throw new Error(`Unsupported MessagePack extension: ${extType}`);
+    }
+
+    const nanoseconds = buffer.readUInt32BE(offset);
+    const seconds = Number(buffer.readBigInt64BE(offset + 4));
+    return { value: new Date(seconds * 1000 + nanoseconds / 1e6), newOffset: offset + length };
+  }
+
+  /**
+   * Decode the items of an array of known length
+   */
+  private decodeArray(buffer: Buffer, offset: number, length: number): { value: any, newOffset: number } {
+    // Every item takes at least one byte
+    this.read(buffer, offset, length);
+    const arr = [];
+    for (let i = 0; i < length; i++) {
+      const result = this.decodeValue(buffer, offset);
+      arr.push(result.value);
+      offset = result.newOffset;
+    }
+    return { value: arr, newOffset: offset };
+  }
+
+  /**
+   * Decode a map into a plain object, or a Map when a key is not a string
+   */
+  private decodeMap(buffer: Buffer, offset: number, size: number): { value: any, newOffset: number } {
+    this.read(buffer, offset, size * 2);
+    const entries: [any, any][] = [];
+    for (let i = 0; i < size; i++) {
+      const key = this.decodeValue(buffer, offset);
+      const item = this.decodeValue(buffer, key.newOffset);
+      entries.push([key.value, item.value]);
+      offset = item.newOffset;
+    }
+
+    if (!entries.every(([key]) => typeof key === 'string')) {
+      return { value: new Map(entries), newOffset: offset };
+    }
+
+    const obj: any = {};
+    for (const [key, item] of entries) {
+      Object.defineProperty(obj, key, { value: item, enumerable: true, writable: true, configurable: true });
+    }
+    return { value: obj, newOffset: offset };
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { TokenOptimizer } from './TokenOptimizer';
+import { dictionaryHash } from './dictionary';
+import { CompressionMode } from '../types';
+
+/**
+ * JSON-like values, including numbers JSON itself cannot carry
+ */
+const jsonLikeValue = fc.letrec(tie => ({
+  value: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    fc.constant(null),
+    fc.boolean(),
+    fc.integer(),
+    fc.maxSafeInteger(),
+    fc.double(),
+    fc.fullUnicodeString(),
+    fc.array(tie('value'), { maxLength: 5 }),
+    fc.dictionary(fc.fullUnicodeString({ maxLength: 10 }), tie('value'), { maxKeys: 5 })
+  )
+})).value;
+
+describe('TokenOptimizer', () => {
+  const optimizer = new TokenOptimizer();
+
+  describe('lossless mode', () => {
+    const roundTrip = (value: any) =>
+      optimizer.decompress(optimizer.compress(value, CompressionMode.LOSSLESS), CompressionMode.LOSSLESS);
+
+    it('round trips any JSON-like value', () => {
+      fc.assert(
+        fc.property(jsonLikeValue, value => {
+          expect(roundTrip(value)).toEqual(value);
+        }),
+        { numRuns: 300 }
+      );
+    });
+
+    it('round trips keys built from abbreviations and markers', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.oneof(
+              fc.constantFrom('response', 'result', 'res', 'id', 'identifier', 'userName', '~', '~msg', 'message', 'msg'),
+              fc.fullUnicodeString({ maxLength: 10 })
+            ),
+            { maxLength: 10 }
+          ),
+          keys => {
+            const value = Object.fromEntries(keys.map((key, index) => [key, index]));
+            expect(roundTrip(value)).toEqual(value);
+          }
+        )
+      );
+    });
+
+    it('round trips strings that look like compression markers', () => {
+      for (const value of ['__ZLIB__', '__ZLIB__eJwLAQAAVQBV', '__RAW__', '__RAW____ZLIB__x', '']) {
+        expect(roundTrip(value)).toBe(value);
+      }
+    });
+
+    it('preserves case and whitespace while still deflating long text', () => {
+      const text = 'The  Machine Learning\tMessage\n'.repeat(20);
+      const compressed = optimizer.compress(text, CompressionMode.LOSSLESS);
+
+      expect(compressed.length).toBeLessThan(text.length);
+      expect(roundTrip(text)).toBe(text);
+    });
+
+    it('abbreviates unambiguous keys', () => {
+      expect(optimizer.compress({ message: 'hi' }, CompressionMode.LOSSLESS)).toEqual({ msg: 'hi' });
+    });
+  });
+
+  describe('token counting', () => {
+    it('counts tokens with the configured tokenizer', () => {
+      const perWord = new TokenOptimizer({ name: 'words', encode: () => [], countTokens: text => text.split(' ').length });
+
+      expect(perWord.countTokens('one two three')).toBe(3);
+      expect(perWord.countTokens({ a: 'b c' })).toBe(2);
+      expect(perWord.getStats().tokenizer).toBe('words');
+    });
+
+    it('reports the compression ratio in tokens', () => {
+      const original = 'The artificial intelligence message needs processing';
+      const compressed = optimizer.compress(original);
+
+      expect(optimizer.calculateCompressionRatio(original, compressed))
+        .toBe(optimizer.countTokens(compressed) / optimizer.countTokens(original));
+    });
+  });
+
+  describe('abbreviation dictionaries', () => {
+    const dictionary = (pairs: [string, string][]) => {
+      const entries = pairs.map(([full, abbrev]) => ({ full, abbrev, kind: 'word' as const }));
+      return {
+        format: 'abbreviations' as const,
+        formatVersion: 1,
+        id: 'test@1',
+        hash: dictionaryHash(entries),
+        name: 'test',
+        version: 1,
+        tokenizer: 'ai-processing-layer-bpe-v1',
+        entries
+      };
+    };
+
+    it('exports the current abbreviations', () => {
+      const exported = new TokenOptimizer().exportDictionary('builtin', 2);
+
+      expect(exported).toMatchObject({ format: 'abbreviations', formatVersion: 1, name: 'builtin', version: 2 });
+      expect(exported.entries).toContainEqual({ full: 'machine_learning', abbrev: 'ml', kind: 'word' });
+    });
+
+    it('exports dictionaries that import again', () => {
+      const exported = new TokenOptimizer().exportDictionary();
+
+      expect(() => new TokenOptimizer().importDictionary(exported)).not.toThrow();
+      expect(TokenOptimizer.fromDictionary(exported).getDictionaryHash()).toBe(exported.hash);
+
+      const custom = new TokenOptimizer();
+      custom.addAbbreviation('resource', 'res');
+      const reexported = custom.exportDictionary();
+      expect(reexported.entries).toContainEqual({ full: 'resource', abbrev: 'res', kind: 'word' });
+      expect(reexported.entries).not.toContainEqual({ full: 'response', abbrev: 'res', kind: 'word' });
+      expect(TokenOptimizer.fromDictionary(reexported).getDictionaryHash()).toBe(custom.getDictionaryHash());
+    });
+
+    it('rejects entries that are not word-character terms', () => {
+      const local = new TokenOptimizer();
+
+      expect(() => local.importDictionary(dictionary([['total(', 'tt']]))).toThrow('Invalid abbreviation entry in dictionary test');
+      expect(() => local.importDictionary(dictionary([['price.amount', 'pa']]))).toThrow('Invalid abbreviation entry in dictionary test');
+      expect(() => local.importDictionary(dictionary([['telemetry', '~t']]))).toThrow('Invalid abbreviation entry in dictionary test');
+    });
+
+    it('matches terms literally, not as patterns', () => {
+      const local = new TokenOptimizer();
+      local.addAbbreviation('subtotal(', 'st');
+      local.addAbbreviation('price.amount', 'pa');
+
+      expect(local.abbreviate('the price.amount, not priceXamount')).toBe('the pa, not priceXamount');
+      expect(local.abbreviate('a subtotal( b')).toBe('a subtotal( b');
+    });
+
+    it('loads every entry or none of them', () => {
+      const local = new TokenOptimizer();
+
+      expect(() => local.importDictionary(dictionary([['telemetry', 'tlm'], ['throughput', 'ml']])))
+        .toThrow('Abbreviation "ml" already stands for "machine_learning"');
+      expect(() => local.importDictionary(dictionary([['message', 'mg']]))).toThrow('"message" is already abbreviated as "msg"');
+      expect(local.compress('telemetry')).toBe('telemetry');
+
+      local.importDictionary(dictionary([['telemetry', 'tlm'], ['message', 'msg']]));
+      expect(local.compress('Telemetry message')).toBe('tlm msg');
+    });
+
+    it('hashes the abbreviations regardless of order', () => {
+      const first = TokenOptimizer.fromDictionary(dictionary([['telemetry', 'tlm'], ['throughput', 'tp']]));
+      const second = TokenOptimizer.fromDictionary(dictionary([['throughput', 'tp'], ['telemetry', 'tlm']]));
+
+      expect(first.getDictionaryHash()).toBe(second.getDictionaryHash());
+      expect(first.exportDictionary('tel', 2)).toMatchObject({ id: 'tel@2', hash: first.getDictionaryHash() });
+      expect(first.compress('machine_learning telemetry')).toBe('machine_learning tlm');
+
+      first.addAbbreviation('latency', 'lat');
+      expect(first.getDictionaryHash()).not.toBe(second.getDictionaryHash());
+    });
+
+    it('rejects dictionaries whose entries do not match their hash', () => {
+      const tampered = { ...dictionary([['telemetry', 'tlm']]), entries: [{ full: 'telemetry', abbrev: 'tl', kind: 'word' as const }] };
+
+      expect(() => new TokenOptimizer().importDictionary(tampered)).toThrow('Abbreviation dictionary test@1 does not match its hash');
+    });
+
+    it('rejects unknown dictionary formats', () => {
+      expect(() => optimizer.importDictionary({ ...dictionary([]), formatVersion: 2 }))
+        .toThrow('Unsupported abbreviation dictionary format version: 2');
+      expect(() => optimizer.importDictionary({ entries: [] } as any)).toThrow('Invalid abbreviation dictionary');
+    });
+  });
+
+  describe('lossy mode', () => {
+    it('abbreviates and normalises text', () => {
+      expect(optimizer.compress('Run the  Machine_Learning function')).toBe('run the ml fn');
+    });
+
+    it('keeps arrays as arrays', () => {
+      expect(optimizer.decompress(optimizer.compress(['a', 'b']))).toEqual(['a', 'b']);
+    });
+
+    it('returns the original text when a zlib payload is corrupt', () => {
+      expect(optimizer.decompress('__ZLIB__not-base64-deflate')).toBe('__ZLIB__not-base64-deflate');
+    });
+  });
+});
@@ -1,4 +1,19 @@
 import * as zlib from 'zlib';
+import { AbbreviationDictionary, AbbreviationEntry, CompressionMode, Tokenizer } from '../types';
+import { BPETokenizer } from '../tokenizers/BPETokenizer';
+import { AbbreviationMiner } from './AbbreviationMiner';
+import { dictionaryHash, dictionaryId, isDictionaryTerm } from './dictionary';
+
+const ZLIB_MARKER = '__ZLIB__';
+const RAW_MARKER = '__RAW__';
+const KEY_ESCAPE = '~';
+
+/**
+ * Case-insensitive whole-word pattern matching a term literally
+ */
+function termPattern(term: string): RegExp {
+  return new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+}
 
 /**
  * Token optimizer for minimizing communication overhead
@@ -7,11 +22,48 @@ export class TokenOptimizer {
   private compressionThreshold = 100; // bytes
   private abbreviations: Map<string, string> = new Map();
   private reverseAbbreviations: Map<string, string> = new Map();
+  private tokenizer: Tokenizer;
+  private hash?: string;
 
-  constructor() {
+  constructor(tokenizer: Tokenizer = new BPETokenizer()) {
+    this.tokenizer = tokenizer;
     this.initializeAbbreviations();
   }
 
+  /**
+   * Optimizer whose abbreviations are exactly those of a dictionary
+   */
+  static fromDictionary(dictionary: AbbreviationDictionary, tokenizer?: Tokenizer): TokenOptimizer {
+    const optimizer = new TokenOptimizer(tokenizer);
+    optimizer.abbreviations.clear();
+    optimizer.reverseAbbreviations.clear();
+    optimizer.importDictionary(dictionary);
+    return optimizer;
+  }
+
+  /**
+   * Replace the tokenizer used for token counts
+   */
+  setTokenizer(tokenizer: Tokenizer): void {
+    this.tokenizer = tokenizer;
+  }
+
+  /**
+   * Count the tokens of a value as a model would receive it: strings as they are,
+   * Buffers as base64 and everything else as JSON
+   */
+  countTokens(value: any): number {
+    let text: string;
+    if (typeof value === 'string') {
+      text = value;
+    } else if (Buffer.isBuffer(value)) {
+      text = value.toString('base64');
+    } else {
+      text = JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item) ?? '';
+    }
+    return this.tokenizer.countTokens(text);
+  }
+
   /**
    * Initialize common abbreviations for AI communication
    */
@@ -49,7 +101,7 @@ export class TokenOptimizer {
       'configuration': 'cfg',
       'parameter': 'param',
       'argument': 'arg',
-      'result': 'res',
+      'result': 'rslt',
       'data': 'dat',
       'information': 'info',
       'content': 'cont',
@@ -115,49 +167,154 @@ export class TokenOptimizer {
   }
 
   /**
-   * Compress data using multiple optimization techniques
+   * Compress data using multiple optimization techniques.
+   * LOSSY (default) trades exactness for size; LOSSLESS guarantees an exact round trip.
    */
-  compress(data: any): any {
+  compress(data: any, mode: CompressionMode = CompressionMode.LOSSY): any {
+    if (mode === CompressionMode.LOSSLESS) {
+      return this.compressLossless(data);
+    }
+
     if (typeof data === 'string') {
       return this.compressString(data);
-    } else if (typeof data === 'object') {
-      return this.compressObject(data);
     } else if (Array.isArray(data)) {
       return this.compressArray(data);
+    } else if (typeof data === 'object') {
+      return this.compressObject(data);
     }
     
     return data;
   }
 
   /**
-   * Decompress data
+   * Decompress data. The mode must match the one used for compression.
    */
-  decompress(data: any): any {
+  decompress(data: any, mode: CompressionMode = CompressionMode.LOSSY): any {
+    if (mode === CompressionMode.LOSSLESS) {
+      return this.decompressLossless(data);
+    }
+
     if (typeof data === 'string') {
       return this.decompressString(data);
-    } else if (typeof data === 'object' && data !== null) {
-      return this.decompressObject(data);
     } else if (Array.isArray(data)) {
       return this.decompressArray(data);
+    } else if (typeof data === 'object' && data !== null) {
+      return this.decompressObject(data);
     }
     
     return data;
   }
 
   /**
-   * Compress string using abbreviations and zlib
+   * Lossless compression: keys use unambiguous abbreviations only and
+   * strings are deflated verbatim, with escaping for marker collisions
    */
-  private compressString(text: string): string {
-    let compressed = text.toLowerCase();
-    
-    // Apply abbreviations
-    for (const [full, abbrev] of this.abbreviations.entries()) {
-      const regex = new RegExp(`\\b${full}\\b`, 'gi');
-      compressed = compressed.replace(regex, abbrev);
+  private compressLossless(data: any): any {
+    if (typeof data === 'string') {
+      return this.compressStringLossless(data);
+    } else if (Array.isArray(data)) {
+      return data.map(item => this.compressLossless(item));
+    } else if (typeof data === 'object' && data !== null) {
+      return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [
+          this.compressKeyLossless(key),
+          this.compressLossless(value)
+        ])
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Reverse compressLossless
+   */
+  private decompressLossless(data: any): any {
+    if (typeof data === 'string') {
+      return this.decompressStringLossless(data);
+    } else if (Array.isArray(data)) {
+      return data.map(item => this.decompressLossless(item));
+    } else if (typeof data === 'object' && data !== null) {
+      return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [
+          this.decompressKeyLossless(key),
+          this.decompressLossless(value)
+        ])
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Deflate a string without altering its text
+   */
+  private compressStringLossless(text: string): string {
+    if (text.length > this.compressionThreshold) {
+      const deflated = zlib.deflateSync(Buffer.from(text, 'utf8'), { level: 9 }).toString('base64');
+
+      if (ZLIB_MARKER.length + deflated.length < text.length * 0.8) {
+        return `${ZLIB_MARKER}${deflated}`;
+      }
+    }
+
+    // Escape strings that would otherwise be mistaken for markers
+    if (text.startsWith(ZLIB_MARKER) || text.startsWith(RAW_MARKER)) {
+      return `${RAW_MARKER}${text}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Reverse compressStringLossless
+   */
+  private decompressStringLossless(text: string): string {
+    if (text.startsWith(RAW_MARKER)) {
+      return text.slice(RAW_MARKER.length);
     }
 
-    // Remove redundant whitespace
-    compressed = compressed.replace(/\s+/g, ' ').trim();
+    if (text.startsWith(ZLIB_MARKER)) {
+      const buffer = Buffer.from(text.slice(ZLIB_MARKER.length), 'base64');
+      return zlib.inflateSync(buffer).toString('utf8');
+    }
+
+    return text;
+  }
+
+  /**
+   * Abbreviate a key only when the abbreviation maps back to it unambiguously;
+   * keys that look like abbreviations are escaped
+   */
+  private compressKeyLossless(key: string): string {
+    const abbrev = this.abbreviations.get(key);
+    if (abbrev !== undefined && !abbrev.startsWith(KEY_ESCAPE) && this.reverseAbbreviations.get(abbrev) === key) {
+      return abbrev;
+    }
+
+    if (this.reverseAbbreviations.has(key) || key.startsWith(KEY_ESCAPE)) {
+      return `${KEY_ESCAPE}${key}`;
+    }
+
+    return key;
+  }
+
+  /**
+   * Reverse compressKeyLossless
+   */
+  private decompressKeyLossless(key: string): string {
+    if (key.startsWith(KEY_ESCAPE)) {
+      return key.slice(KEY_ESCAPE.length);
+    }
+
+    return this.reverseAbbreviations.get(key) ?? key;
+  }
+
+  /**
+   * Compress string using abbreviations and zlib
+   */
+  private compressString(text: string): string {
+    const compressed = this.abbreviate(text.toLowerCase());
 
     // Apply zlib compression if beneficial
     if (compressed.length > this.compressionThreshold) {
@@ -166,7 +323,7 @@ export class TokenOptimizer {
         const deflated = zlib.deflateSync(buffer, { level: 9 });
         
         if (deflated.length < compressed.length * 0.8) {
-          return `__ZLIB__${deflated.toString('base64')}`;
+          return `${ZLIB_MARKER}${deflated.toString('base64')}`;
         }
       } catch (error) {
         // Fall back to uncompressed version
@@ -176,6 +333,19 @@ export class TokenOptimizer {
     return compressed;
   }
 
+  /**
+   * Replace known terms by their abbreviations and collapse whitespace,
+   * leaving the rest of the text readable
+   */
+  abbreviate(text: string): string {
+    let abbreviated = text;
+    for (const [full, abbrev] of this.abbreviations.entries()) {
+      abbreviated = abbreviated.replace(termPattern(full), abbrev);
+    }
+
+    return abbreviated.replace(/\s+/g, ' ').trim();
+  }
+
   /**
    * Decompress string
    */
@@ -183,9 +353,9 @@ export class TokenOptimizer {
     let decompressed = text;
 
     // Handle zlib compression
-    if (text.startsWith('__ZLIB__')) {
+    if (text.startsWith(ZLIB_MARKER)) {
       try {
-        const base64Data = text.slice(8);
+        const base64Data = text.slice(ZLIB_MARKER.length);
         const buffer = Buffer.from(base64Data, 'base64');
         decompressed = zlib.inflateSync(buffer).toString('utf8');
       } catch (error) {
@@ -195,8 +365,7 @@ export class TokenOptimizer {
 
     // Reverse abbreviations
     for (const [abbrev, full] of this.reverseAbbreviations.entries()) {
-      const regex = new RegExp(`\\b${abbrev}\\b`, 'gi');
-      decompressed = decompressed.replace(regex, full);
+      decompressed = decompressed.replace(termPattern(abbrev), full);
     }
 
     return decompressed;
@@ -314,13 +483,13 @@ export class TokenOptimizer {
   }
 
   /**
-   * Calculate compression ratio
+   * Calculate compression ratio in tokens
    */
   calculateCompressionRatio(original: any, compressed: any): number {
-    const originalSize = JSON.stringify(original).length;
-    const compressedSize = JSON.stringify(compressed).length;
+    const originalTokens = this.countTokens(original);
+    const compressedTokens = this.countTokens(compressed);
     
-    return compressedSize / originalSize;
+    return originalTokens === 0 ? 1 : compressedTokens / originalTokens;
   }
 
   /**
@@ -330,6 +499,7 @@ export class TokenOptimizer {
     return {
       abbreviationCount: this.abbreviations.size,
       compressionThreshold: this.compressionThreshold,
+      tokenizer: this.tokenizer.name,
       version: '1.0.0'
     };
   }
@@ -340,6 +510,95 @@ export class TokenOptimizer {
   addAbbreviation(full: string, abbrev: string): void {
     this.abbreviations.set(full.toLowerCase(), abbrev.toLowerCase());
     this.reverseAbbreviations.set(abbrev.toLowerCase(), full.toLowerCase());
+    this.hash = undefined;
+  }
+
+  /**
+   * Miner reserving every term and abbreviation already in the dictionary
+   */
+  createMiner(): AbbreviationMiner {
+    return new AbbreviationMiner(this.tokenizer, [...this.abbreviations.keys(), ...this.reverseAbbreviations.keys()]);
+  }
+
+  /**
+   * Current abbreviations as a versioned dictionary artifact
+   */
+  exportDictionary(name: string = 'custom', version: number = 1): AbbreviationDictionary {
+    const entries: AbbreviationEntry[] = this.reversibleEntries().map(([full, abbrev]) => ({
+      full,
+      abbrev,
+      kind: full.includes(' ') ? 'phrase' : 'word'
+    }));
+
+    return {
+      format: 'abbreviations',
+      formatVersion: 1,
+      id: dictionaryId(name, version),
+      hash: this.getDictionaryHash(),
+      name,
+      version,
+      tokenizer: this.tokenizer.name,
+      entries
+    };
+  }
+
+  /**
+   * Content hash of the current abbreviations. Peers with equal hashes
+   * decompress each other's output correctly.
+   */
+  getDictionaryHash(): string {
+    this.hash ??= dictionaryHash(this.reversibleEntries().map(([full, abbrev]) => ({ full, abbrev })));
+    return this.hash;
+  }
+
+  /**
+   * Abbreviations that expand back to their term. An abbreviation reused by
+   * addAbbreviation() expands to the later term only, so the earlier one is left out.
+   */
+  private reversibleEntries(): Array<[string, string]> {
+    return Array.from(this.abbreviations).filter(([full, abbrev]) => this.reverseAbbreviations.get(abbrev) === full);
+  }
+
+  /**
+   * Load a dictionary artifact. Nothing is loaded when an entry conflicts with
+   * an existing abbreviation.
+   */
+  importDictionary(dictionary: AbbreviationDictionary): void {
+    if (dictionary?.format !== 'abbreviations' || !Array.isArray(dictionary.entries)) {
+      throw new Error('Invalid abbreviation dictionary');
+    }
+    if (dictionary.formatVersion !== 1) {
+      throw new Error(`Unsupported abbreviation dictionary format version: ${dictionary.formatVersion}`);
+    }
+    if (dictionary.hash !== undefined && dictionary.hash !== dictionaryHash(dictionary.entries)) {
+      throw new Error(`Abbreviation dictionary ${dictionary.id} does not match its hash`);
+    }
+
+    const pending = new Map<string, string>();
+    for (const { full, abbrev } of dictionary.entries) {
+      if (typeof full !== 'string' || typeof abbrev !== 'string' || !isDictionaryTerm(full) || !isDictionaryTerm(abbrev)) {
+        throw new Error(`Invalid abbreviation entry in dictionary ${dictionary.name}`);
+      }
+
+      const term = full.toLowerCase();
+      const short = abbrev.toLowerCase();
+      const current = this.reverseAbbreviations.get(short) ?? pending.get(short);
+      if (current !== undefined && current !== term) {
+        throw new Error(`Abbreviation "${short}" already stands for "${current}"`);
+      }
+      const existing = this.abbreviations.get(term) ?? Array.from(pending).find(([, other]) => other === term)?.[0];
+      if (existing !== undefined && existing !== short) {
+        throw new Error(`"${term}" is already abbreviated as "${existing}"`);
+      }
+      pending.set(short, term);
+    }
+
+    // Phrases go first so that their words are not abbreviated before them
+    const entries = Array.from(pending, ([abbrev, full]) => [full, abbrev])
+      .sort(([a], [b]) => Number(b.includes(' ')) - Number(a.includes(' ')));
+    for (const [full, abbrev] of entries) {
+      this.addAbbreviation(full, abbrev);
+    }
   }
 
   /**
@@ -350,6 +609,7 @@ export class TokenOptimizer {
     if (abbrev) {
       this.abbreviations.delete(full.toLowerCase());
       this.reverseAbbreviations.delete(abbrev);
+      this.hash = undefined;
     }
   }
 }
\ No newline at end of file
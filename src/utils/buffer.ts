@@ -0,0 +1,11 @@
+/**
+ * Buffer helpers for binary message content
+ */
+
+/**
+ * Binary content as a Buffer. Buffers that went through a JSON transport
+ * arrive as { type: 'Buffer', data: [...] }.
+ */
+export function toBuffer(content: any): Buffer {
+  return Buffer.isBuffer(content) ? content : Buffer.from(content.data ?? content);
+}
@@ -0,0 +1,26 @@
+/**
+ * CRC32 (IEEE 802.3) checksums for packet integrity checks
+ */
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Calculate the CRC32 of a buffer
+ */
+export function crc32(buffer: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (const byte of buffer) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
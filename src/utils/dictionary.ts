@@ -0,0 +1,30 @@
+import * as crypto from 'crypto';
+import { AbbreviationEntry } from '../types';
+
+/**
+ * Helpers for abbreviation dictionary artifacts
+ */
+
+/**
+ * Id of a dictionary revision
+ */
+export function dictionaryId(name: string, version: number): string {
+  return `${name}@${version}`;
+}
+
+/**
+ * Content hash of abbreviation entries. Order, case and the informational
+ * fields of entries do not change it.
+ */
+export function dictionaryHash(entries: Array<Pick<AbbreviationEntry, 'full' | 'abbrev'>>): string {
+  const lines = entries.map(({ full, abbrev }) => `${full.toLowerCase()}\t${abbrev.toLowerCase()}`).sort();
+  return crypto.createHash('sha256').update(lines.join('\n')).digest('hex').slice(0, 16);
+}
+
+/**
+ * Whether a term can be a dictionary entry: words of letters, digits and
+ * underscores separated by single spaces
+ */
+export function isDictionaryTerm(term: string): boolean {
+  return /^\w+(?: \w+)*$/.test(term);
+}
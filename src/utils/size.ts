@@ -0,0 +1,53 @@
+/**
+ * Size estimates for cached values
+ */
+
+/**
+ * Approximate payload size of a value in bytes: the byte length of Buffers,
+ * typed arrays and UTF-8 strings, 8 bytes per number, and the sum of keys and
+ * values for arrays, objects, Maps and Sets. An object reachable twice (or
+ * through a cycle) is counted once.
+ */
+export function sizeOf(value: any, seen: WeakSet<object> = new WeakSet()): number {
+  switch (typeof value) {
+    case 'string':
+      return Buffer.byteLength(value);
+    case 'number':
+    case 'bigint':
+      return 8;
+    case 'boolean':
+      return 4;
+    case 'object':
+      break;
+    default:
+      return 0;
+  }
+
+  if (value === null || seen.has(value)) {
+    return 0;
+  }
+  seen.add(value);
+
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return value.byteLength;
+  }
+  if (value instanceof Date) {
+    return 8;
+  }
+
+  let size = 0;
+  if (value instanceof Map) {
+    for (const [key, item] of value) {
+      size += sizeOf(key, seen) + sizeOf(item, seen);
+    }
+  } else if (value instanceof Set || Array.isArray(value)) {
+    for (const item of value) {
+      size += sizeOf(item, seen);
+    }
+  } else {
+    for (const key of Object.keys(value)) {
+      size += Buffer.byteLength(key) + sizeOf(value[key], seen);
+    }
+  }
+  return size;
+}